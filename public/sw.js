@@ -0,0 +1,217 @@
+// Weather Loop service worker
+// - App shell: index.html and the built assets listed in asset-manifest.json
+//   (written by vite.config.ts) are precached on install and served instantly.
+//   Each navigation refreshes index.html in the background and syncs the
+//   assets with the manifest, so a new deploy is cached and the old one dropped.
+// - Map tiles: cached per provider using rules sent by the app (see getTileCacheRules
+//   in src/lib/layerCatalog.ts) - cache-first for static basemaps, time-bounded for
+//   live radar and satellite tiles
+// GOES loop images are not handled here - they live in IndexedDB (imageCache.ts)
+
+const VERSION = 'v1';
+const SHELL_CACHE = `weather-loop-shell-${VERSION}`;
+const CONFIG_CACHE = `weather-loop-config-${VERSION}`;
+const TILE_CACHE_PREFIX = `weather-loop-tiles-${VERSION}-`;
+
+// Header recording when a tile was cached, for time-bounded rules
+const CACHED_AT_HEADER = 'x-sw-cached-at';
+// Trim a tile cache back to its limit after this many writes
+const TRIM_EVERY = 50;
+
+const SCOPE = self.registration.scope;
+const SHELL_URLS = [SCOPE, `${SCOPE}index.html`];
+const MANIFEST_URL = `${SCOPE}asset-manifest.json`;
+const ASSETS_URL = `${SCOPE}assets/`;
+const RULES_KEY = `${SCOPE}__tile-cache-rules`;
+
+let rulesPromise = null;
+let loadedRules = null; // Tile rules once read - null until then
+const writeCounts = new Map();
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then(async (cache) => {
+        await cache.addAll(SHELL_URLS);
+        await syncAssets(cache);
+      })
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  // Drop caches from earlier versions, and assets from earlier builds
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(
+        keys
+          .filter((key) => key.startsWith('weather-loop-') && !key.includes(`-${VERSION}`))
+          .map((key) => caches.delete(key))
+      ))
+      .then(() => caches.open(SHELL_CACHE))
+      .then(pruneAssets)
+      .then(() => self.clients.claim())
+  );
+});
+
+// Fetch the asset manifest, cache any listed file not yet cached and drop
+// the rest. Without a manifest, assets are only cached as they're used.
+async function syncAssets(cache) {
+  const response = await fetch(MANIFEST_URL, { cache: 'no-cache' }).catch(() => null);
+  if (!response?.ok) return;
+  const { files } = await response.clone().json();
+  const urls = files.map((file) => `${SCOPE}${file}`);
+  const cached = new Set((await cache.keys()).map((request) => request.url));
+  await cache.addAll(urls.filter((url) => !cached.has(url)));
+  await cache.put(MANIFEST_URL, response);
+  await pruneAssets(cache);
+}
+
+// Delete cached build assets (content-hashed, under assets/) the stored
+// manifest no longer lists
+async function pruneAssets(cache) {
+  const manifest = await cache.match(MANIFEST_URL);
+  if (!manifest) return;
+  const { files } = await manifest.json();
+  const keep = new Set(files.map((file) => `${SCOPE}${file}`));
+  const stale = (await cache.keys())
+    .filter((request) => request.url.startsWith(ASSETS_URL) && !keep.has(request.url));
+  await Promise.all(stale.map((request) => cache.delete(request)));
+}
+
+// The app sends its tile rules after registering - persist them, since the
+// worker may be stopped and restarted between page loads
+self.addEventListener('message', (event) => {
+  if (event.data?.type !== 'tile-cache-rules') return;
+  const rules = event.data.rules;
+  rulesPromise = Promise.resolve(rules);
+  loadedRules = rules;
+  event.waitUntil(
+    caches.open(CONFIG_CACHE).then((cache) => cache.put(RULES_KEY, new Response(JSON.stringify(rules))))
+  );
+});
+
+function getRules() {
+  if (!rulesPromise) {
+    rulesPromise = caches.open(CONFIG_CACHE)
+      .then((cache) => cache.match(RULES_KEY))
+      .then((response) => (response ? response.json() : []))
+      .catch(() => []);
+  }
+  return rulesPromise.then((rules) => {
+    loadedRules = rules;
+    return rules;
+  });
+}
+
+// Start reading the rules as soon as the worker starts
+getRules();
+
+function findRule(rules, url) {
+  return rules.find((rule) => rule.prefixes.some((prefix) => url.startsWith(prefix)));
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  // App shell and built assets - other files under the scope (public/ copies
+  // such as vite.svg) aren't content-hashed, so they're left to the network
+  if (url.href.startsWith(SCOPE)) {
+    if (request.mode === 'navigate') event.respondWith(serveShell(event));
+    else if (url.href.startsWith(ASSETS_URL)) event.respondWith(serveAsset(request));
+    return;
+  }
+
+  // Tiles - rules only cover other origins, and requests no rule matches are
+  // left to the browser
+  if (loadedRules) {
+    const rule = findRule(loadedRules, request.url);
+    if (rule) event.respondWith(serveTile(event, request, rule));
+    return;
+  }
+
+  // Worker just started - the rules are still being read from the cache
+  event.respondWith(
+    getRules().then((rules) => {
+      const rule = findRule(rules, request.url);
+      return rule ? serveTile(event, request, rule) : fetch(request);
+    })
+  );
+});
+
+// Navigations: cached index.html right away, updated for next time
+async function serveShell(event) {
+  const cache = await caches.open(SHELL_CACHE);
+  const cached = await cache.match(`${SCOPE}index.html`);
+  const network = fetch(event.request).then((response) => {
+    if (response.ok) {
+      cache.put(`${SCOPE}index.html`, response.clone());
+      // A new index.html may point at a new build
+      event.waitUntil(syncAssets(cache).catch(() => undefined));
+    }
+    return response;
+  });
+  if (cached) {
+    event.waitUntil(network.catch(() => undefined));
+    return cached;
+  }
+  return network;
+}
+
+// Built assets have content-hashed names, so a cached copy is always current
+async function serveAsset(request) {
+  const cache = await caches.open(SHELL_CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) cache.put(request, response.clone());
+  return response;
+}
+
+async function serveTile(event, request, rule) {
+  const cacheName = `${TILE_CACHE_PREFIX}${rule.provider}`;
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(request);
+
+  if (cached && isFresh(cached, rule)) return cached;
+
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      event.waitUntil(storeTile(cache, cacheName, request, response.clone(), rule));
+    }
+    return response;
+  } catch (error) {
+    // Offline - an expired tile beats a blank map
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+function isFresh(response, rule) {
+  if (rule.strategy === 'cache-first') return true;
+  const cachedAt = Number(response.headers.get(CACHED_AT_HEADER));
+  return Date.now() - cachedAt < rule.maxAgeMinutes * 60 * 1000;
+}
+
+async function storeTile(cache, cacheName, request, response, rule) {
+  const headers = new Headers(response.headers);
+  headers.set(CACHED_AT_HEADER, String(Date.now()));
+  const body = await response.blob();
+  await cache.put(request, new Response(body, { status: response.status, statusText: response.statusText, headers }));
+
+  const writes = (writeCounts.get(cacheName) ?? 0) + 1;
+  writeCounts.set(cacheName, writes);
+  if (writes % TRIM_EVERY === 0) await trimCache(cache, rule.maxEntries);
+}
+
+// Keys come back in insertion order, so the oldest tiles go first
+async function trimCache(cache, maxEntries) {
+  const keys = await cache.keys();
+  const excess = keys.length - maxEntries;
+  for (let i = 0; i < excess; i++) {
+    await cache.delete(keys[i]);
+  }
+}
@@ -0,0 +1,153 @@
+import { useCallback, useEffect, useState } from 'react';
+import { PRODUCTS, SECTORS } from '../lib/goesApi';
+import type { Sector } from '../lib/goesApi';
+import { releaseFrameUrl } from '../lib/frameHandles';
+import {
+  evictToBudget,
+  getCachedImageUrl,
+  getCacheSummary,
+  purgeCache,
+  revalidateCache,
+} from '../lib/imageCache';
+import type { CacheGroupSummary } from '../lib/imageCache';
+
+function formatAge(time: number): string {
+  const minutes = Math.max(0, Math.round((Date.now() - time) / 60000));
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 48) return `${hours}h ${minutes % 60}m`;
+  return `${Math.floor(hours / 24)}d`;
+}
+
+function formatMB(bytes: number): string {
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+// Newest cached frame of a group - holds a frame handle while shown
+// Looking doesn't count as use, so it doesn't shield the frame from eviction
+function CacheThumbnail({ url, alt }: { url: string; alt: string }) {
+  const [src, setSrc] = useState<string | null>(null);
+
+  useEffect(() => {
+    let active = true;
+    let acquired = false;
+    getCachedImageUrl(url, { recordAccess: false }).then((objectUrl) => {
+      if (!objectUrl) return;
+      acquired = true;
+      if (active) setSrc(objectUrl);
+      else releaseFrameUrl(url);
+    });
+    return () => {
+      active = false;
+      if (acquired) releaseFrameUrl(url);
+    };
+  }, [url]);
+
+  return src ? <img src={src} alt={alt} className="cache-thumb" /> : <div className="cache-thumb empty" />;
+}
+
+// Inspect and manage the IndexedDB frame cache
+export function CacheInspector() {
+  const [groups, setGroups] = useState<CacheGroupSummary[] | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const loadSummary = useCallback(() => {
+    return getCacheSummary()
+      .then(setGroups)
+      .catch((error) => {
+        console.error('Error reading cache summary:', error);
+        setGroups([]);
+      });
+  }, []);
+
+  useEffect(() => {
+    loadSummary();
+  }, [loadSummary]);
+
+  // Run one action at a time, then re-read the summary
+  const runAction = async (label: string, action: () => Promise<string>) => {
+    setBusy(label);
+    setMessage(null);
+    try {
+      setMessage(await action());
+    } catch (error) {
+      console.error(`Cache action failed (${label}):`, error);
+      setMessage(`${label} failed: ${error instanceof Error ? error.message : 'unknown error'}`);
+    }
+    await loadSummary();
+    setBusy(null);
+  };
+
+  const purgeSector = (sector: Sector) => runAction(`Purge ${SECTORS[sector].name}`, async () => {
+    const removed = await purgeCache(sector);
+    return `Removed ${removed} ${SECTORS[sector].name} images`;
+  });
+
+  const purgeAll = () => runAction('Purge all', async () => {
+    const removed = await purgeCache();
+    return `Removed ${removed} images`;
+  });
+
+  const revalidate = () => runAction('Re-validate', async () => {
+    const { checked, removed } = await revalidateCache();
+    return `Checked ${checked} images, removed ${removed} no longer on the CDN`;
+  });
+
+  const evict = () => runAction('Evict', async () => {
+    const evicted = await evictToBudget();
+    return evicted > 0 ? `Evicted ${evicted} least recently used images` : 'Cache is within budget';
+  });
+
+  const sectors = [...new Set(groups?.map((group) => group.sector))];
+  const totalCount = groups?.reduce((sum, group) => sum + group.count, 0) ?? 0;
+  const totalBytes = groups?.reduce((sum, group) => sum + group.bytes, 0) ?? 0;
+
+  return (
+    <section className="cache-inspector">
+      <h2>Frame cache</h2>
+      <p className="cache-totals">
+        {groups ? `${totalCount} images • ${formatMB(totalBytes)}` : 'Reading cache...'}
+      </p>
+
+      <div className="debug-controls">
+        <button onClick={revalidate} disabled={busy !== null} className="retest-btn">
+          {busy === 'Re-validate' ? 'Re-validating...' : 'Re-validate'}
+        </button>
+        <button onClick={evict} disabled={busy !== null} className="retest-btn">
+          Run eviction now
+        </button>
+        <button onClick={purgeAll} disabled={busy !== null || totalCount === 0} className="retest-btn danger">
+          Purge all
+        </button>
+      </div>
+      {message && <p className="cache-message">{message}</p>}
+
+      {groups && groups.length === 0 && <p className="cache-empty">No frames cached</p>}
+
+      {sectors.map((sector) => (
+        <div key={sector} className="cache-sector">
+          <div className="cache-sector-header">
+            <span className="source-name">{SECTORS[sector]?.name ?? sector}</span>
+            <button onClick={() => purgeSector(sector)} disabled={busy !== null} className="purge-btn">
+              Purge sector
+            </button>
+          </div>
+
+          {groups!.filter((group) => group.sector === sector).map((group) => (
+            <div key={group.product} className="cache-group">
+              <CacheThumbnail url={group.newestUrl} alt={`${sector} ${group.product}`} />
+              <div className="cache-group-details">
+                <span className="cache-product">{PRODUCTS[group.product]?.name ?? group.product}</span>
+                <span>{group.count} frames • {formatMB(group.bytes)}</span>
+                <span className="cache-age">
+                  Scans {formatAge(group.oldestScanTime)} – {formatAge(group.newestScanTime)} old
+                </span>
+              </div>
+            </div>
+          ))}
+        </div>
+      ))}
+    </section>
+  );
+}
@@ -1,4 +1,5 @@
 import { useEffect, useState } from 'react';
+import { CacheInspector } from './CacheInspector';
 import './DebugPage.css';
 
 interface SourceTest {
@@ -394,6 +395,8 @@ export function DebugPage() {
         ))}
       </div>
 
+      <CacheInspector />
+
       <footer className="debug-footer">
         <p>CORS errors = browser blocks the request (missing Access-Control-Allow-Origin header)</p>
         <p>Referer errors = server blocks requests without valid Referer header (GitHub Pages issue)</p>
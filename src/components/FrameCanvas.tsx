@@ -0,0 +1,101 @@
+import { useEffect, useRef } from 'react';
+import { isUsable } from '../hooks/useFrameDecoder';
+import { drawInterpolatedFrame, getBlendFactor } from '../lib/frameInterpolation';
+import type { FlowField } from '../lib/frameInterpolation';
+
+// Blend toward the next frame over part of the current frame's hold
+export interface FrameBlend {
+  next: ImageBitmap | undefined;
+  startedAt: number; // requestAnimationFrame timestamp the blend is timed from
+  delayMs: number;
+  durationMs: number;
+  factor: number;    // Blend steps per interval
+  flow: FlowField | null; // Motion between the frames, or null to crossfade
+}
+
+interface FrameCanvasProps {
+  // Decoded frame, or undefined while it's still decoding
+  bitmap: ImageBitmap | undefined;
+  // Shown as a plain <img> until the bitmap is ready
+  fallbackUrl: string;
+  alt: string;
+  blend?: FrameBlend | null;
+}
+
+// Double-buffered frame display: each frame is drawn onto the hidden canvas,
+// which is then swapped to the front, so a frame never shows half-drawn.
+// Canvases use object-fit: contain like the <img>, so getContainedImageRect
+// still describes where the frame lands.
+export function FrameCanvas({ bitmap, fallbackUrl, alt, blend }: FrameCanvasProps) {
+  const canvasARef = useRef<HTMLCanvasElement>(null);
+  const canvasBRef = useRef<HTMLCanvasElement>(null);
+  const frontRef = useRef(0);
+  const usable = isUsable(bitmap);
+
+  useEffect(() => {
+    if (!isUsable(bitmap)) return;
+    const canvases = [canvasARef.current, canvasBRef.current];
+    if (!canvases[0] || !canvases[1]) return;
+
+    // Draw the frame (blended t of the way to the next) and swap buffers
+    const render = (t: number) => {
+      const front = canvases[frontRef.current]!;
+      const back = canvases[1 - frontRef.current]!;
+      const ctx = back.getContext('2d');
+      if (!ctx) return;
+
+      if (back.width !== bitmap.width || back.height !== bitmap.height) {
+        back.width = bitmap.width;
+        back.height = bitmap.height;
+      }
+      if (t > 0 && isUsable(blend?.next)) {
+        drawInterpolatedFrame(ctx, bitmap, blend.next, t, blend.flow);
+      } else {
+        ctx.drawImage(bitmap, 0, 0);
+      }
+
+      // Swap buffers outside React - the classes never change through props
+      back.classList.add('front');
+      front.classList.remove('front');
+      frontRef.current = 1 - frontRef.current;
+    };
+
+    if (!blend || !isUsable(blend.next)) {
+      render(0);
+      return;
+    }
+
+    // Redraw only when the quantized blend position moves on
+    const blendAt = (now: number) => getBlendFactor((now - blend.startedAt - blend.delayMs) / blend.durationMs, blend.factor);
+    let shown = blendAt(performance.now());
+    render(shown);
+
+    let frameId = requestAnimationFrame(function tick(now) {
+      const t = blendAt(now);
+      if (t !== shown) {
+        shown = t;
+        render(t);
+      }
+      if (now < blend.startedAt + blend.delayMs + blend.durationMs) frameId = requestAnimationFrame(tick);
+    });
+    return () => cancelAnimationFrame(frameId);
+  }, [bitmap, blend]);
+
+  // Canvases still hold the last decoded frame - hide them under the fallback
+  const canvasStyle = usable ? undefined : { visibility: 'hidden' as const };
+
+  return (
+    <>
+      <canvas ref={canvasARef} className="satellite-image frame-canvas" style={canvasStyle} role="img" aria-label={alt} />
+      <canvas ref={canvasBRef} className="satellite-image frame-canvas" style={canvasStyle} role="img" aria-label={alt} />
+      {!usable && (
+        <img
+          src={fallbackUrl}
+          alt={alt}
+          className="satellite-image"
+          draggable={false}
+        />
+      )}
+    </>
+  );
+}
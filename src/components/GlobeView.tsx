@@ -1,28 +1,32 @@
 import { useEffect, useRef, useState } from 'react';
 import Globe from 'globe.gl';
-import { SECTORS, fetchAvailableImages } from '../lib/goesApi';
-import type { Sector, ImageType } from '../lib/goesApi';
+import { SECTORS, fetchAvailableImages, formatSatelliteName, getProductsForSector, isProductAvailable } from '../lib/goesApi';
+import type { Sector, ImageType, GoesFrame, Satellite } from '../lib/goesApi';
+import { getDwellTime, getPlayStartFrame, stepFrame } from '../lib/playback';
 import { Play, Pause, RefreshCw } from 'lucide-react';
 import './GlobeView.css';
-
-const IMAGE_TYPES: { value: ImageType; label: string }[] = [
-  { value: 'GEOCOLOR', label: 'GeoColor' },
-  { value: 'Band02', label: 'Visible' },
-  { value: 'Band13', label: 'IR Clean' },
-];
+import { ShortcutHelp } from './ShortcutHelp';
+import { useShortcuts } from '../hooks/useShortcuts';
+import { PlaybackModeSelect } from './PlaybackModeSelect';
+import { usePlaybackMode } from '../hooks/usePlaybackMode';
 
 export function GlobeView() {
   const containerRef = useRef<HTMLDivElement>(null);
   const globeRef = useRef<InstanceType<typeof Globe> | null>(null);
   const [sector, setSector] = useState<Sector>('FD');
   const [imageType, setImageType] = useState<ImageType>('GEOCOLOR');
-  const [frames, setFrames] = useState<string[]>([]);
+  const [frames, setFrames] = useState<GoesFrame[]>([]);
+  const [satellite, setSatellite] = useState<Satellite>(SECTORS.FD.satellite);
   const [currentFrame, setCurrentFrame] = useState(0);
   const [isPlaying, setIsPlaying] = useState(false);
+  const { mode: playbackMode, dwellMs, directionRef, setMode: setPlaybackMode, setDwell } = usePlaybackMode();
   const [isLoading, setIsLoading] = useState(true);
   const [globeReady, setGlobeReady] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  // Product selector options, built from the catalog for the current sector
+  const imageTypes = getProductsForSector(sector);
+
   // Initialize globe after mount
   useEffect(() => {
     if (!containerRef.current) return;
@@ -111,13 +115,14 @@ export function GlobeView() {
     const loadFrames = async () => {
       setIsLoading(true);
       try {
-        const urls = await fetchAvailableImages(sector, imageType, 12);
-        setFrames(urls);
+        const listing = await fetchAvailableImages(sector, imageType, 12);
+        setFrames(listing.frames);
+        setSatellite(listing.satellite);
         setCurrentFrame(0);
 
         // Update globe texture with first frame
-        if (urls.length > 0 && globeRef.current) {
-          globeRef.current.globeImageUrl(urls[0]);
+        if (listing.frames.length > 0 && globeRef.current) {
+          globeRef.current.globeImageUrl(listing.frames[0].url);
         }
       } catch (err) {
         console.error('Failed to load frames:', err);
@@ -133,19 +138,51 @@ export function GlobeView() {
   // Update globe when frame changes
   useEffect(() => {
     if (frames.length > 0 && globeRef.current) {
-      globeRef.current.globeImageUrl(frames[currentFrame]);
+      globeRef.current.globeImageUrl(frames[currentFrame].url);
     }
   }, [currentFrame, frames]);
 
-  // Animation loop
+  // Animation loop - one timeout per frame, so each step starts from the frame on screen
   useEffect(() => {
     if (isPlaying && frames.length > 0) {
-      const interval = setInterval(() => {
-        setCurrentFrame(prev => (prev + 1) % frames.length);
-      }, 500);
-      return () => clearInterval(interval);
+      const timer = setTimeout(() => {
+        const step = stepFrame(currentFrame, frames.length, playbackMode, directionRef.current);
+        directionRef.current = step.direction;
+        if (step.done) setIsPlaying(false);
+        else setCurrentFrame(step.frame);
+      }, getDwellTime(currentFrame, frames.length, dwellMs) + 500);
+      return () => clearTimeout(timer);
     }
-  }, [isPlaying, frames.length]);
+  }, [isPlaying, frames.length, currentFrame, playbackMode, dwellMs, directionRef]);
+
+  const togglePlay = () => {
+    if (!isPlaying) setCurrentFrame(getPlayStartFrame(currentFrame, frames.length, playbackMode));
+    setIsPlaying(p => !p);
+  };
+
+  // Sector switches stop playback, like the sector menu
+  const selectSector = (index: number) => {
+    const newSector = (Object.keys(SECTORS) as Sector[])[index];
+    if (!newSector) return;
+    setSector(newSector);
+    if (!isProductAvailable(imageType, newSector)) {
+      setImageType('GEOCOLOR');
+    }
+    setIsPlaying(false);
+  };
+  const shortcuts = useShortcuts(
+    {
+      ...(frames.length > 0 && {
+        togglePlay,
+        prevFrame: () => setCurrentFrame(i => (i - 1 + frames.length) % frames.length),
+        nextFrame: () => setCurrentFrame(i => (i + 1) % frames.length),
+        firstFrame: () => setCurrentFrame(0),
+        lastFrame: () => setCurrentFrame(frames.length - 1),
+      }),
+      ...(!isLoading && { selectSlot: selectSector }),
+    },
+    { selectSlot: 'Sector, in menu order' }
+  );
 
   return (
     <div className="globe-view">
@@ -154,7 +191,12 @@ export function GlobeView() {
         <select
           value={sector}
           onChange={(e) => {
-            setSector(e.target.value as Sector);
+            const newSector = e.target.value as Sector;
+            setSector(newSector);
+            // Not every sector carries every product
+            if (!isProductAvailable(imageType, newSector)) {
+              setImageType('GEOCOLOR');
+            }
             setIsPlaying(false);
           }}
           disabled={isLoading}
@@ -176,15 +218,23 @@ export function GlobeView() {
           disabled={isLoading}
           className="globe-select"
         >
-          {IMAGE_TYPES.map((type) => (
-            <option key={type.value} value={type.value}>
+          {imageTypes.map((type) => (
+            <option key={type.value} value={type.value} title={type.info.description}>
               {type.label}
             </option>
           ))}
         </select>
 
+        <PlaybackModeSelect
+          mode={playbackMode}
+          dwellMs={dwellMs}
+          onModeChange={setPlaybackMode}
+          onDwellChange={setDwell}
+          className="globe-select"
+        />
+
         <button
-          onClick={() => setIsPlaying(p => !p)}
+          onClick={togglePlay}
           disabled={isLoading || frames.length === 0}
           className="globe-btn"
         >
@@ -219,8 +269,10 @@ export function GlobeView() {
 
       {/* Footer */}
       <div className="globe-footer">
-        <span>NOAA GOES Satellite • Powered by globe.gl</span>
+        <span>NOAA {formatSatelliteName(satellite)} • Powered by globe.gl</span>
       </div>
+
+      {shortcuts.showHelp && <ShortcutHelp shortcuts={shortcuts.shortcuts} onClose={shortcuts.closeHelp} />}
     </div>
   );
 }
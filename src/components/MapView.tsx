@@ -1,4 +1,4 @@
-import { useEffect, useRef, useState, useCallback } from 'react';
+import { Fragment, useEffect, useRef, useState, useCallback } from 'react';
 
 // Custom hook for debounced value
 function useDebouncedValue<T>(value: T, delay: number): T {
@@ -15,7 +15,30 @@ import maplibregl from 'maplibre-gl';
 import 'maplibre-gl/dist/maplibre-gl.css';
 import { RefreshCw } from 'lucide-react';
 import './MapView.css';
-import { proxyRainViewerUrl, proxyIemUrl, proxyGibsUrl } from '../lib/tileProxy';
+import { ShortcutHelp } from './ShortcutHelp';
+import { useShortcuts } from '../hooks/useShortcuts';
+import { PlaybackModeSelect } from './PlaybackModeSelect';
+import { usePlaybackMode } from '../hooks/usePlaybackMode';
+import {
+  LAYER_CATALOG,
+  LAYER_BUTTON_GROUPS,
+  getLayer,
+  getLayerButtons,
+  getDefaultVisibility,
+  getTileUrls,
+  buildRasterSource,
+  buildRasterLayer,
+  buildStyleLayers,
+} from '../lib/layerCatalog';
+import type { LayerVisibility } from '../lib/layerCatalog';
+import { getDwellTime, getPlayStartFrame, stepFrame } from '../lib/playback';
+import { INTERPOLATION_FACTORS, getBlendFactor } from '../lib/frameInterpolation';
+import type { InterpolationSettings } from '../lib/frameInterpolation';
+
+// Second radar layer that fades in the next frame while playing
+const RADAR_NEXT_SOURCE = 'radar-next';
+const RADAR_NEXT_LAYER = 'radar-layer-next';
+const RADAR_FRAME_MS = 800; // ms between frames to avoid rate limiting
 
 // RainViewer API for pre-tiled radar
 interface RainViewerFrame {
@@ -136,21 +159,14 @@ export function MapView() {
   const [preloadProgress, setPreloadProgress] = useState(0);
   const [radarFrames, setRadarFrames] = useState<RainViewerFrame[]>([]);
   const [currentFrameIndex, setCurrentFrameIndex] = useState(0);
+  const { mode: playbackMode, dwellMs, directionRef, setMode: setPlaybackMode, setDwell } = usePlaybackMode();
+  // Tiles are drawn by MapLibre, so radar frames can only crossfade - no motion blending
+  const [radarBlend, setRadarBlend] = useState<InterpolationSettings>({ mode: 'off', factor: 4 });
   // Debounce frame index for tile loading (150ms) - slider stays responsive
   const debouncedFrameIndex = useDebouncedValue(currentFrameIndex, 150);
   const hasPreloadedRef = useRef(false); // Track if we've already preloaded
-  const [showSatellite, setShowSatellite] = useState(false); // Grayscale satellite OFF by default
-  const [showRadar, setShowRadar] = useState(false); // RainViewer radar OFF by default
-  const [showTrueColor, setShowTrueColor] = useState(true); // EOX Sentinel-2 true color base, ON by default
-  const [showTestLayer, setShowTestLayer] = useState(false); // Test layer for experiments (VIIRS)
-  const [showCloudLayer, setShowCloudLayer] = useState(false); // Cloud infrared layer
-  const [showKbox, setShowKbox] = useState(false); // KBOX Boston radar
-  const [showGoesGeocolor, setShowGoesGeocolor] = useState(false); // GOES GeoColor true color
-  const [showMrms, setShowMrms] = useState(false); // MRMS high-res composite radar
-  const [showIrEnhanced, setShowIrEnhanced] = useState(false); // Enhanced IR satellite
-  const [showIemAnimated, setShowIemAnimated] = useState(false); // IEM Animated NEXRAD composite
-  const [showNwsRadar, setShowNwsRadar] = useState(true); // NWS official radar ON by default
-  const [showGoesWest, setShowGoesWest] = useState(false); // GOES-West (Pacific/West coast coverage)
+  const [visibleLayers, setVisibleLayers] = useState<LayerVisibility>(getDefaultVisibility); // Per-layer visibility from the catalog
+  const showRadar = visibleLayers['radar-layer'];
   const [mapLoaded, setMapLoaded] = useState(false); // Track when map is ready for layer operations
   const [error, setError] = useState<string | null>(null);
   const [smoothRadar, setSmoothRadar] = useState(true); // Bilinear interpolation for radar (smoother vs blocky)
@@ -159,6 +175,9 @@ export function MapView() {
   useEffect(() => {
     if (!containerRef.current || mapRef.current) return;
 
+    // Generated from the layer catalog - initial visibility comes from defaultVisible
+    const { sources, layers } = buildStyleLayers(getDefaultVisibility());
+
     const map = new maplibregl.Map({
       container: containerRef.current,
       attributionControl: false, // Hide the info button
@@ -168,298 +187,8 @@ export function MapView() {
         version: 8,
         name: 'Weather Loop',
         projection: { type: 'globe' },
-        sources: {
-          // Dark base map with labels
-          'carto-dark': {
-            type: 'raster',
-            tiles: [
-              'https://a.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}@2x.png',
-              'https://b.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}@2x.png',
-              'https://c.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}@2x.png',
-            ],
-            tileSize: 256,
-            attribution: '© CARTO',
-          },
-          // nowCOAST GOES visible satellite (grayscale but works from web)
-          'goes-satellite': {
-            type: 'raster',
-            tiles: [
-              'https://nowcoast.noaa.gov/geoserver/satellite/wms?SERVICE=WMS&VERSION=1.3.0&REQUEST=GetMap&LAYERS=goes_visible_imagery&CRS=EPSG:3857&BBOX={bbox-epsg-3857}&WIDTH=256&HEIGHT=256&FORMAT=image/png&TRANSPARENT=true'
-            ],
-            tileSize: 256,
-            attribution: '© NOAA nowCOAST',
-          },
-          // EOX Sentinel-2 Cloudless - TRUE COLOR satellite (annual composite, no auth)
-          'eox-sentinel2': {
-            type: 'raster',
-            tiles: [
-              'https://tiles.maps.eox.at/wmts/1.0.0/s2cloudless-2024_3857/default/g/{z}/{y}/{x}.jpg',
-            ],
-            tileSize: 256,
-            maxzoom: 14,
-            attribution: '© EOX Sentinel-2 Cloudless',
-          },
-          // NASA GIBS VIIRS True Color - daily satellite (NO stitching gaps unlike MODIS!)
-          // Proxied through Cloudflare Worker in production
-          'gibs-viirs': {
-            type: 'raster',
-            tiles: [
-              proxyGibsUrl(`https://gibs.earthdata.nasa.gov/wmts/epsg3857/best/VIIRS_SNPP_CorrectedReflectance_TrueColor/default/${new Date(Date.now() - 86400000).toISOString().split('T')[0]}/GoogleMapsCompatible_Level9/{z}/{y}/{x}.jpg`),
-            ],
-            tileSize: 256,
-            maxzoom: 9,
-            attribution: '© NASA GIBS VIIRS',
-          },
-          // NOAA nowCOAST infrared satellite - shows cloud patterns (5 min updates)
-          'nowcoast-ir': {
-            type: 'raster',
-            tiles: [
-              'https://nowcoast.noaa.gov/geoserver/satellite/wms?SERVICE=WMS&VERSION=1.3.0&REQUEST=GetMap&LAYERS=goes_longwave_imagery&CRS=EPSG:3857&BBOX={bbox-epsg-3857}&WIDTH=256&HEIGHT=256&FORMAT=image/png&TRANSPARENT=true'
-            ],
-            tileSize: 256,
-            attribution: '© NOAA nowCOAST IR',
-          },
-          // KBOX (Boston) - local NEXRAD radar via Iowa Environmental Mesonet
-          // Format: ridge::BOX-N0Q-0 where 0 = current, or timestamp for historical
-          // Proxied through Cloudflare Worker in production
-          'kbox-radar': {
-            type: 'raster',
-            tiles: [
-              proxyIemUrl('https://mesonet.agron.iastate.edu/cache/tile.py/1.0.0/ridge::BOX-N0Q-0/{z}/{x}/{y}.png')
-            ],
-            tileSize: 256,
-            attribution: '© Iowa Environmental Mesonet',
-          },
-          // GOES GeoColor - true color satellite from NASA GIBS (10 min updates, no referer issues)
-          // Uses GOES-East for Eastern US coverage - omitting time returns latest available
-          // Proxied through Cloudflare Worker in production
-          'goes-geocolor': {
-            type: 'raster',
-            tiles: [
-              proxyGibsUrl('https://gibs.earthdata.nasa.gov/wmts/epsg3857/best/GOES-East_ABI_GeoColor/default/GoogleMapsCompatible_Level7/{z}/{y}/{x}.png')
-            ],
-            tileSize: 256,
-            maxzoom: 7,
-            attribution: '© NASA GIBS GOES-East',
-          },
-          // MRMS - Multi-Radar Multi-Sensor composite (143 radars, 1km resolution)
-          // Proxied through Cloudflare Worker in production
-          'mrms-radar': {
-            type: 'raster',
-            tiles: [
-              proxyIemUrl('https://mesonet.agron.iastate.edu/cache/tile.py/1.0.0/q2-n1p-900913/{z}/{x}/{y}.png')
-            ],
-            tileSize: 256,
-            attribution: '© IEM MRMS',
-          },
-          // Enhanced IR - GOES Band13 Clean Infrared from NASA GIBS (no referer issues)
-          // Proxied through Cloudflare Worker in production
-          'ir-enhanced': {
-            type: 'raster',
-            tiles: [
-              proxyGibsUrl('https://gibs.earthdata.nasa.gov/wmts/epsg3857/best/GOES-East_ABI_Band13_Clean_Infrared/default/GoogleMapsCompatible_Level6/{z}/{y}/{x}.png')
-            ],
-            tileSize: 256,
-            maxzoom: 6,
-            attribution: '© NASA GIBS GOES-East IR',
-          },
-          // IEM Animated NEXRAD - composite radar with 50 min history, updates every 5 min
-          // Good alternative to RainViewer to reduce rate limiting
-          // Proxied through Cloudflare Worker in production
-          'iem-animated': {
-            type: 'raster',
-            tiles: [
-              proxyIemUrl('https://mesonet.agron.iastate.edu/cache/tile.py/1.0.0/nexrad-n0q-900913/{z}/{x}/{y}.png')
-            ],
-            tileSize: 256,
-            attribution: '© Iowa Environmental Mesonet',
-          },
-          // NWS Radar - official NOAA radar via WMS (alternative source)
-          'nws-radar': {
-            type: 'raster',
-            tiles: [
-              'https://mapservices.weather.noaa.gov/eventdriven/services/radar/radar_base_reflectivity/MapServer/WMSServer?SERVICE=WMS&VERSION=1.3.0&REQUEST=GetMap&LAYERS=0&CRS=EPSG:3857&BBOX={bbox-epsg-3857}&WIDTH=256&HEIGHT=256&FORMAT=image/png&TRANSPARENT=true&STYLES='
-            ],
-            tileSize: 256,
-            attribution: '© NWS',
-          },
-          // GOES-West GeoColor - alternative true color for Pacific/West coast (10 min updates)
-          // Useful as fallback when GOES-East has gaps or for western US coverage
-          // Proxied through Cloudflare Worker in production
-          'goes-west': {
-            type: 'raster',
-            tiles: [
-              proxyGibsUrl('https://gibs.earthdata.nasa.gov/wmts/epsg3857/best/GOES-West_ABI_GeoColor/default/GoogleMapsCompatible_Level7/{z}/{y}/{x}.png')
-            ],
-            tileSize: 256,
-            maxzoom: 7,
-            attribution: '© NASA GIBS GOES-West',
-          },
-        },
-        layers: [
-          {
-            id: 'base-dark',
-            type: 'raster',
-            source: 'carto-dark',
-            minzoom: 0,
-            maxzoom: 18,
-          },
-          // EOX true color base layer (below satellite) - ON by default
-          {
-            id: 'eox-truecolor-layer',
-            type: 'raster',
-            source: 'eox-sentinel2',
-            minzoom: 0,
-            maxzoom: 14,
-            paint: {
-              'raster-opacity': 0.9,
-            },
-          },
-          // GOES satellite (grayscale, on top of EOX)
-          {
-            id: 'satellite-layer',
-            type: 'raster',
-            source: 'goes-satellite',
-            minzoom: 0,
-            maxzoom: 10,
-            layout: {
-              visibility: 'none', // Off by default
-            },
-            paint: {
-              'raster-opacity': 0.7,
-            },
-          },
-          // Test layer - VIIRS true color (no stitching gaps!)
-          {
-            id: 'test-layer',
-            type: 'raster',
-            source: 'gibs-viirs',
-            minzoom: 0,
-            maxzoom: 9,
-            layout: {
-              visibility: 'none', // Off by default
-            },
-            paint: {
-              'raster-opacity': 0.85,
-            },
-          },
-          // Cloud layer - infrared imagery (thermal, shows clouds)
-          {
-            id: 'cloud-layer',
-            type: 'raster',
-            source: 'nowcoast-ir',
-            minzoom: 0,
-            maxzoom: 10,
-            layout: {
-              visibility: 'none', // Off by default
-            },
-            paint: {
-              'raster-opacity': 0.7,
-            },
-          },
-          // KBOX Boston radar layer
-          {
-            id: 'kbox-layer',
-            type: 'raster',
-            source: 'kbox-radar',
-            minzoom: 0,
-            maxzoom: 10,
-            layout: {
-              visibility: 'none', // Off by default
-            },
-            paint: {
-              'raster-opacity': 0.8,
-              'raster-resampling': 'linear', // Bilinear for smoother appearance
-            },
-          },
-          // GOES GeoColor true color layer
-          {
-            id: 'geocolor-layer',
-            type: 'raster',
-            source: 'goes-geocolor',
-            minzoom: 0,
-            // No maxzoom - allow overzoom (tiles scaled up) at higher zoom levels
-            layout: {
-              visibility: 'none', // Off by default
-            },
-            paint: {
-              'raster-opacity': 0.9,
-            },
-          },
-          // MRMS high-res composite radar layer
-          {
-            id: 'mrms-layer',
-            type: 'raster',
-            source: 'mrms-radar',
-            minzoom: 0,
-            maxzoom: 10,
-            layout: {
-              visibility: 'none', // Off by default
-            },
-            paint: {
-              'raster-opacity': 0.75,
-              'raster-resampling': 'linear', // Bilinear for smoother appearance
-            },
-          },
-          // Enhanced IR satellite layer
-          {
-            id: 'ir-enhanced-layer',
-            type: 'raster',
-            source: 'ir-enhanced',
-            minzoom: 0,
-            // No maxzoom - allow overzoom at higher zoom levels
-            layout: {
-              visibility: 'none', // Off by default
-            },
-            paint: {
-              'raster-opacity': 0.8,
-            },
-          },
-          // IEM Animated NEXRAD layer - alternative to RainViewer
-          {
-            id: 'iem-animated-layer',
-            type: 'raster',
-            source: 'iem-animated',
-            minzoom: 0,
-            maxzoom: 10,
-            layout: {
-              visibility: 'none', // Off by default
-            },
-            paint: {
-              'raster-opacity': 0.75,
-              'raster-resampling': 'linear', // Bilinear for smoother appearance
-            },
-          },
-          // NWS official radar layer
-          {
-            id: 'nws-radar-layer',
-            type: 'raster',
-            source: 'nws-radar',
-            minzoom: 0,
-            maxzoom: 10,
-            layout: {
-              visibility: 'none', // Off by default
-            },
-            paint: {
-              'raster-opacity': 0.75,
-              'raster-resampling': 'linear', // Bilinear interpolation for smoother appearance
-            },
-          },
-          // GOES-West GeoColor layer (Pacific/Western US)
-          {
-            id: 'goes-west-layer',
-            type: 'raster',
-            source: 'goes-west',
-            minzoom: 0,
-            // No maxzoom - allow overzoom at higher zoom levels
-            layout: {
-              visibility: 'none', // Off by default
-            },
-            paint: {
-              'raster-opacity': 0.9,
-            },
-          },
-        ],
+        sources,
+        layers,
       },
       center: [-71.0589, 42.3601], // Boston
       zoom: 5,
@@ -471,10 +200,6 @@ export function MapView() {
     map.on('load', () => {
       setIsLoading(false);
       setMapLoaded(true);
-      // Set NWS radar layer to visible by default (matches state)
-      if (map.getLayer('nws-radar-layer')) {
-        map.setLayoutProperty('nws-radar-layer', 'visibility', 'visible');
-      }
     });
 
     map.on('error', (e) => {
@@ -535,38 +260,20 @@ export function MapView() {
     const currentFrame = radarFrames[debouncedFrameIndex];
     if (!currentFrame) return;
 
-    // Color scheme 2 = original, smooth=1, snow=1
     // Proxy through Cloudflare Worker in production for caching
-    const radarUrl = proxyRainViewerUrl(`https://tilecache.rainviewer.com${currentFrame.path}/256/{z}/{x}/{y}/2/1_1.png`);
+    const rainViewer = getLayer('radar-layer')!;
 
     try {
-      if (map.getSource('radar')) {
+      const source = map.getSource(rainViewer.sourceId) as maplibregl.RasterTileSource | undefined;
+      if (source) {
         // Only update tiles if radar is visible
         if (showRadar) {
-          (map.getSource('radar') as maplibregl.RasterTileSource).setTiles([radarUrl]);
+          source.setTiles(getTileUrls(rainViewer, currentFrame.path));
         }
       } else {
-        // Add radar source and layer (start hidden, only show when toggled on)
-        map.addSource('radar', {
-          type: 'raster',
-          tiles: [radarUrl],
-          tileSize: 256,
-        });
-
-        map.addLayer({
-          id: 'radar-layer',
-          type: 'raster',
-          source: 'radar',
-          minzoom: 0,
-          maxzoom: 7, // RainViewer only provides tiles up to zoom 7
-          layout: {
-            visibility: 'none', // Start hidden - toggle function will show it
-          },
-          paint: {
-            'raster-opacity': 0.75,
-            'raster-resampling': smoothRadar ? 'linear' : 'nearest', // Bilinear vs blocky
-          },
-        });
+        // Add radar source and layer on top of the static catalog layers
+        map.addSource(rainViewer.sourceId, buildRasterSource(rainViewer, currentFrame.path));
+        map.addLayer(buildRasterLayer(rainViewer, showRadar, smoothRadar ? 'linear' : 'nearest'));
       }
     } catch (err) {
       console.error('Failed to update radar layer:', err);
@@ -615,9 +322,10 @@ export function MapView() {
       radarFrames,
       currentFrameIndex,
       limitedTiles,
-      (framePath, tile) => proxyRainViewerUrl(
-        `https://tilecache.rainviewer.com${framePath}/256/${tile.z}/${tile.x}/${tile.y}/2/1_1.png`
-      ),
+      (framePath, tile) => getTileUrls(getLayer('radar-layer')!, framePath)[0]
+        .replace('{z}', String(tile.z))
+        .replace('{x}', String(tile.x))
+        .replace('{y}', String(tile.y)),
       (loaded, total) => {
         setPreloadProgress(Math.round((loaded / total) * 100));
       }
@@ -640,205 +348,115 @@ export function MapView() {
   // MapLibre will cache tiles automatically
 
   // Animation loop - use longer interval to avoid CORS/rate limit issues
+  // One timeout per frame, so each step starts from the frame on screen
   useEffect(() => {
     if (!isPlaying || radarFrames.length === 0) return;
 
-    const interval = setInterval(() => {
-      setCurrentFrameIndex(prev => (prev + 1) % radarFrames.length);
-    }, 800); // 800ms between frames to avoid rate limiting
-
-    return () => clearInterval(interval);
-  }, [isPlaying, radarFrames.length]);
+    const timer = setTimeout(() => {
+      const step = stepFrame(currentFrameIndex, radarFrames.length, playbackMode, directionRef.current);
+      directionRef.current = step.direction;
+      if (step.done) setIsPlaying(false);
+      else setCurrentFrameIndex(step.frame);
+    }, getDwellTime(currentFrameIndex, radarFrames.length, dwellMs) + RADAR_FRAME_MS);
 
-  // Toggle satellite visibility
-  const toggleSatellite = useCallback(() => {
-    const map = mapRef.current;
-    if (!map) return;
-
-    const newVisibility = !showSatellite;
-    setShowSatellite(newVisibility);
-    try {
-      map.setLayoutProperty('satellite-layer', 'visibility', newVisibility ? 'visible' : 'none');
-    } catch (err) {
-      console.error('Failed to toggle satellite:', err);
-    }
-  }, [showSatellite]);
-
-  // Toggle radar visibility
-  const toggleRadar = useCallback(() => {
-    const map = mapRef.current;
-    if (!map) return;
-
-    const newVisibility = !showRadar;
-    setShowRadar(newVisibility);
-    try {
-      if (map.getLayer('radar-layer')) {
-        map.setLayoutProperty('radar-layer', 'visibility', newVisibility ? 'visible' : 'none');
-      }
-    } catch (err) {
-      console.error('Failed to toggle radar:', err);
-    }
-  }, [showRadar]);
-
-  // Toggle EOX Sentinel-2 true color layer visibility
-  const toggleTrueColor = useCallback(() => {
-    const map = mapRef.current;
-    if (!map) return;
-
-    const newVisibility = !showTrueColor;
-    setShowTrueColor(newVisibility);
-    try {
-      if (map.getLayer('eox-truecolor-layer')) {
-        map.setLayoutProperty('eox-truecolor-layer', 'visibility', newVisibility ? 'visible' : 'none');
-      }
-    } catch (err) {
-      console.error('Failed to toggle true color:', err);
-    }
-  }, [showTrueColor]);
-
-  // Toggle test layer visibility (NASA GIBS VIIRS - no stitching!)
-  const toggleTestLayer = useCallback(() => {
-    const map = mapRef.current;
-    if (!map) return;
-
-    const newVisibility = !showTestLayer;
-    setShowTestLayer(newVisibility);
-    try {
-      if (map.getLayer('test-layer')) {
-        map.setLayoutProperty('test-layer', 'visibility', newVisibility ? 'visible' : 'none');
-      }
-    } catch (err) {
-      console.error('Failed to toggle test layer:', err);
-    }
-  }, [showTestLayer]);
-
-  // Toggle cloud layer visibility (NOAA infrared)
-  const toggleCloudLayer = useCallback(() => {
-    const map = mapRef.current;
-    if (!map) return;
-
-    const newVisibility = !showCloudLayer;
-    setShowCloudLayer(newVisibility);
-    try {
-      if (map.getLayer('cloud-layer')) {
-        map.setLayoutProperty('cloud-layer', 'visibility', newVisibility ? 'visible' : 'none');
-      }
-    } catch (err) {
-      console.error('Failed to toggle cloud layer:', err);
-    }
-  }, [showCloudLayer]);
+    return () => clearTimeout(timer);
+  }, [isPlaying, radarFrames.length, currentFrameIndex, playbackMode, dwellMs, directionRef]);
 
-  // Toggle KBOX Boston radar visibility
-  const toggleKbox = useCallback(() => {
+  // Crossfade radar frames while playing. The next-frame layer loads the
+  // upcoming frame and fades in over the interval; after the frame changes it
+  // stays up until the main layer has loaded the same frame, then the two swap
+  // back without a visible change. A dwelling frame holds before the fade starts.
+  useEffect(() => {
     const map = mapRef.current;
-    if (!map) return;
-
-    const newVisibility = !showKbox;
-    setShowKbox(newVisibility);
-    try {
-      if (map.getLayer('kbox-layer')) {
-        map.setLayoutProperty('kbox-layer', 'visibility', newVisibility ? 'visible' : 'none');
-      }
-    } catch (err) {
-      console.error('Failed to toggle KBOX:', err);
+    if (!map || !mapLoaded) return;
+    const rainViewer = getLayer('radar-layer')!;
+    const setOpacity = (layerId: string, opacity: number) => {
+      if (map.getLayer(layerId)) map.setPaintProperty(layerId, 'raster-opacity', opacity);
+    };
+    const tileUrl = (sourceId: string) => (map.getSource(sourceId) as maplibregl.RasterTileSource | undefined)?.tiles?.[0];
+
+    const step = stepFrame(currentFrameIndex, radarFrames.length, playbackMode, directionRef.current);
+    const blending = showRadar && isPlaying && radarBlend.mode !== 'off'
+      && !step.done && Math.abs(step.frame - currentFrameIndex) === 1;
+    if (!blending) {
+      setOpacity(rainViewer.id, rainViewer.opacity);
+      setOpacity(RADAR_NEXT_LAYER, 0);
+      return;
     }
-  }, [showKbox]);
 
-  // Toggle GOES GeoColor visibility
-  const toggleGoesGeocolor = useCallback(() => {
-    const map = mapRef.current;
-    if (!map) return;
+    // Fade window of this interval, after any dwell
+    const startedAt = performance.now() + getDwellTime(currentFrameIndex, radarFrames.length, dwellMs);
+    const currentUrl = getTileUrls(rainViewer, radarFrames[currentFrameIndex].path)[0];
+    const nextTiles = getTileUrls(rainViewer, radarFrames[step.frame].path);
+    let ready = false; // Main layer shows the current frame, next layer is loading the next
+    let shown = -1;
+    let frameId = 0;
 
-    const newVisibility = !showGoesGeocolor;
-    setShowGoesGeocolor(newVisibility);
     try {
-      if (map.getLayer('geocolor-layer')) {
-        map.setLayoutProperty('geocolor-layer', 'visibility', newVisibility ? 'visible' : 'none');
+      if (!map.getSource(RADAR_NEXT_SOURCE)) {
+        map.addSource(RADAR_NEXT_SOURCE, buildRasterSource(rainViewer, radarFrames[step.frame].path));
+        const layer = buildRasterLayer(rainViewer, true, smoothRadar ? 'linear' : 'nearest');
+        map.addLayer({
+          ...layer,
+          id: RADAR_NEXT_LAYER,
+          source: RADAR_NEXT_SOURCE,
+          paint: { ...layer.paint, 'raster-opacity': 0, 'raster-fade-duration': 0 },
+        });
       }
-    } catch (err) {
-      console.error('Failed to toggle GeoColor:', err);
-    }
-  }, [showGoesGeocolor]);
-
-  // Toggle MRMS radar visibility
-  const toggleMrms = useCallback(() => {
-    const map = mapRef.current;
-    if (!map) return;
-
-    const newVisibility = !showMrms;
-    setShowMrms(newVisibility);
-    try {
-      if (map.getLayer('mrms-layer')) {
-        map.setLayoutProperty('mrms-layer', 'visibility', newVisibility ? 'visible' : 'none');
+      // Next layer still holds the previous interval's fade target (now the current frame)
+      if (tileUrl(RADAR_NEXT_SOURCE) === currentUrl) {
+        setOpacity(rainViewer.id, 0);
+        setOpacity(RADAR_NEXT_LAYER, rainViewer.opacity);
+      } else {
+        setOpacity(RADAR_NEXT_LAYER, 0);
       }
     } catch (err) {
-      console.error('Failed to toggle MRMS:', err);
+      console.error('Failed to set up radar crossfade:', err);
+      return;
     }
-  }, [showMrms]);
 
-  // Toggle Enhanced IR visibility
-  const toggleIrEnhanced = useCallback(() => {
-    const map = mapRef.current;
-    if (!map) return;
-
-    const newVisibility = !showIrEnhanced;
-    setShowIrEnhanced(newVisibility);
-    try {
-      if (map.getLayer('ir-enhanced-layer')) {
-        map.setLayoutProperty('ir-enhanced-layer', 'visibility', newVisibility ? 'visible' : 'none');
+    const tick = (now: number) => {
+      if (!ready && tileUrl(rainViewer.sourceId) === currentUrl && map.isSourceLoaded(rainViewer.sourceId)) {
+        ready = true;
+        setOpacity(rainViewer.id, rainViewer.opacity);
+        setOpacity(RADAR_NEXT_LAYER, 0);
+        (map.getSource(RADAR_NEXT_SOURCE) as maplibregl.RasterTileSource).setTiles(nextTiles);
       }
-    } catch (err) {
-      console.error('Failed to toggle Enhanced IR:', err);
-    }
-  }, [showIrEnhanced]);
-
-  // Toggle IEM Animated NEXRAD visibility
-  const toggleIemAnimated = useCallback(() => {
-    const map = mapRef.current;
-    if (!map) return;
-
-    const newVisibility = !showIemAnimated;
-    setShowIemAnimated(newVisibility);
-    try {
-      if (map.getLayer('iem-animated-layer')) {
-        map.setLayoutProperty('iem-animated-layer', 'visibility', newVisibility ? 'visible' : 'none');
+      if (ready && tileUrl(RADAR_NEXT_SOURCE) === nextTiles[0] && map.isSourceLoaded(RADAR_NEXT_SOURCE)) {
+        const t = getBlendFactor(Math.max(0, now - startedAt) / RADAR_FRAME_MS, radarBlend.factor);
+        if (t !== shown) {
+          shown = t;
+          setOpacity(rainViewer.id, rainViewer.opacity * (1 - t));
+          setOpacity(RADAR_NEXT_LAYER, rainViewer.opacity * t);
+        }
       }
-    } catch (err) {
-      console.error('Failed to toggle IEM Animated:', err);
-    }
-  }, [showIemAnimated]);
+      if (now < startedAt + RADAR_FRAME_MS) frameId = requestAnimationFrame(tick);
+    };
+    frameId = requestAnimationFrame(tick);
 
-  // Toggle NWS Radar visibility
-  const toggleNwsRadar = useCallback(() => {
-    const map = mapRef.current;
-    if (!map) return;
+    return () => cancelAnimationFrame(frameId);
+  }, [mapLoaded, showRadar, isPlaying, radarBlend, radarFrames, currentFrameIndex, playbackMode, dwellMs, directionRef, smoothRadar]);
 
-    const newVisibility = !showNwsRadar;
-    setShowNwsRadar(newVisibility);
-    try {
-      if (map.getLayer('nws-radar-layer')) {
-        map.setLayoutProperty('nws-radar-layer', 'visibility', newVisibility ? 'visible' : 'none');
-      }
-    } catch (err) {
-      console.error('Failed to toggle NWS Radar:', err);
-    }
-  }, [showNwsRadar]);
+  const togglePlay = () => {
+    if (!isPlaying) setCurrentFrameIndex(getPlayStartFrame(currentFrameIndex, radarFrames.length, playbackMode));
+    setIsPlaying(p => !p);
+  };
 
-  // Toggle GOES-West visibility
-  const toggleGoesWest = useCallback(() => {
+  // Toggle a catalog layer's visibility
+  const toggleLayer = useCallback((layerId: string) => {
     const map = mapRef.current;
     if (!map) return;
 
-    const newVisibility = !showGoesWest;
-    setShowGoesWest(newVisibility);
+    const newVisibility = !visibleLayers[layerId];
+    setVisibleLayers(prev => ({ ...prev, [layerId]: newVisibility }));
     try {
-      if (map.getLayer('goes-west-layer')) {
-        map.setLayoutProperty('goes-west-layer', 'visibility', newVisibility ? 'visible' : 'none');
+      if (map.getLayer(layerId)) {
+        map.setLayoutProperty(layerId, 'visibility', newVisibility ? 'visible' : 'none');
       }
     } catch (err) {
-      console.error('Failed to toggle GOES-West:', err);
+      console.error(`Failed to toggle ${layerId}:`, err);
     }
-  }, [showGoesWest]);
+  }, [visibleLayers]);
 
   // Toggle smooth radar (bilinear vs nearest neighbor interpolation)
   const toggleSmoothRadar = useCallback(() => {
@@ -851,17 +469,38 @@ export function MapView() {
 
     try {
       // Update all radar layers
-      const radarLayers = ['radar-layer', 'nws-radar-layer', 'kbox-layer', 'mrms-layer', 'iem-animated-layer'];
-      radarLayers.forEach(layerId => {
-        if (map.getLayer(layerId)) {
-          map.setPaintProperty(layerId, 'raster-resampling', resamplingMode);
+      LAYER_CATALOG.filter(layer => layer.group === 'radar').forEach(layer => {
+        if (map.getLayer(layer.id)) {
+          map.setPaintProperty(layer.id, 'raster-resampling', resamplingMode);
         }
       });
+      if (map.getLayer(RADAR_NEXT_LAYER)) {
+        map.setPaintProperty(RADAR_NEXT_LAYER, 'raster-resampling', resamplingMode);
+      }
     } catch (err) {
       console.error('Failed to toggle smooth radar:', err);
     }
   }, [smoothRadar]);
 
+  // Number keys toggle layers in button order
+  const layerButtons = LAYER_BUTTON_GROUPS.flatMap(group => getLayerButtons(group));
+  const lastFrameIndex = radarFrames.length - 1;
+  const shortcuts = useShortcuts(
+    {
+      ...(radarFrames.length > 0 && {
+        togglePlay,
+        prevFrame: () => setCurrentFrameIndex(i => (i - 1 + radarFrames.length) % radarFrames.length),
+        nextFrame: () => setCurrentFrameIndex(i => (i + 1) % radarFrames.length),
+        firstFrame: () => setCurrentFrameIndex(0),
+        lastFrame: () => setCurrentFrameIndex(lastFrameIndex),
+      }),
+      selectSlot: (index: number) => {
+        if (layerButtons[index]) toggleLayer(layerButtons[index].id);
+      },
+    },
+    { selectSlot: `Toggle layer (${layerButtons.slice(0, 9).map(layer => layer.label).join(', ')})` }
+  );
+
   // Get timestamp for current frame
   const getCurrentTimestamp = () => {
     if (radarFrames.length === 0) return '';
@@ -886,103 +525,21 @@ export function MapView() {
     <div className="map-view">
       {/* Layer Controls - Compact text buttons */}
       <div className="layer-controls">
-        <button
-          className={`layer-text-btn ${showTrueColor ? 'active' : ''}`}
-          onClick={toggleTrueColor}
-          title="EOX Sentinel-2 True Color Base"
-        >
-          EOX
-        </button>
-
-        <button
-          className={`layer-text-btn ${showSatellite ? 'active' : ''}`}
-          onClick={toggleSatellite}
-          title="nowCOAST Visible Satellite"
-        >
-          SAT
-        </button>
-
-        <button
-          className={`layer-text-btn ${showCloudLayer ? 'active' : ''}`}
-          onClick={toggleCloudLayer}
-          title="NOAA Cloud Infrared"
-        >
-          IR
-        </button>
-
-        <button
-          className={`layer-text-btn ${showGoesGeocolor ? 'active' : ''}`}
-          onClick={toggleGoesGeocolor}
-          title="GOES-East GeoColor True Color"
-        >
-          GOES-E
-        </button>
-
-        <button
-          className={`layer-text-btn ${showGoesWest ? 'active' : ''}`}
-          onClick={toggleGoesWest}
-          title="GOES-West GeoColor True Color (Pacific/Western US)"
-        >
-          GOES-W
-        </button>
-
-        <button
-          className={`layer-text-btn ${showIrEnhanced ? 'active' : ''}`}
-          onClick={toggleIrEnhanced}
-          title="GOES Enhanced IR"
-        >
-          GIR
-        </button>
-
-        <button
-          className={`layer-text-btn ${showTestLayer ? 'active' : ''}`}
-          onClick={toggleTestLayer}
-          title="NASA GIBS VIIRS Daily"
-        >
-          VIIRS
-        </button>
-
-        <div className="layer-divider" />
-
-        <button
-          className={`layer-text-btn ${showRadar ? 'active' : ''}`}
-          onClick={toggleRadar}
-          title="RainViewer NEXRAD (animated)"
-        >
-          RAIN
-        </button>
-
-        <button
-          className={`layer-text-btn ${showKbox ? 'active' : ''}`}
-          onClick={toggleKbox}
-          title="KBOX Boston Radar"
-        >
-          KBOX
-        </button>
-
-        <button
-          className={`layer-text-btn ${showMrms ? 'active' : ''}`}
-          onClick={toggleMrms}
-          title="MRMS Composite Radar"
-        >
-          MRMS
-        </button>
-
-        <button
-          className={`layer-text-btn ${showIemAnimated ? 'active' : ''}`}
-          onClick={toggleIemAnimated}
-          title="IEM NEXRAD Composite (live)"
-        >
-          IEM
-        </button>
-
-        <button
-          className={`layer-text-btn ${showNwsRadar ? 'active' : ''}`}
-          onClick={toggleNwsRadar}
-          title="NWS Official Radar"
-        >
-          NWS
-        </button>
+        {LAYER_BUTTON_GROUPS.map((group, i) => (
+          <Fragment key={group}>
+            {i > 0 && <div className="layer-divider" />}
+            {getLayerButtons(group).map(layer => (
+              <button
+                key={layer.id}
+                className={`layer-text-btn ${visibleLayers[layer.id] ? 'active' : ''}`}
+                onClick={() => toggleLayer(layer.id)}
+                title={layer.title}
+              >
+                {layer.label}
+              </button>
+            ))}
+          </Fragment>
+        ))}
 
         <div className="layer-divider" />
 
@@ -1041,13 +598,37 @@ export function MapView() {
       <div className="playback-bar">
         <button
           className={`play-btn ${isPlaying ? 'playing' : ''}`}
-          onClick={() => setIsPlaying(p => !p)}
+          onClick={togglePlay}
           disabled={radarFrames.length === 0}
           aria-label={isPlaying ? 'Pause' : 'Play'}
         >
           {isPlaying ? '⏸' : '▶️'}
         </button>
 
+        <PlaybackModeSelect
+          mode={playbackMode}
+          dwellMs={dwellMs}
+          onModeChange={setPlaybackMode}
+          onDwellChange={setDwell}
+          className="mode-select"
+        />
+
+        <select
+          className="mode-select"
+          value={radarBlend.mode === 'off' ? 'off' : radarBlend.factor}
+          onChange={(e) => setRadarBlend(e.target.value === 'off'
+            ? { ...radarBlend, mode: 'off' }
+            : { mode: 'crossfade', factor: Number(e.target.value) })}
+          aria-label="Crossfade between frames"
+        >
+          <option value="off">No blend</option>
+          {INTERPOLATION_FACTORS.map((factor) => (
+            <option key={factor} value={factor}>
+              Blend {factor}×
+            </option>
+          ))}
+        </select>
+
         <div className="time-display">
           <span className="time-value">{getCurrentTimestamp() || '--:--'}</span>
           {isForecast() && <span className="forecast-badge">Forecast</span>}
@@ -1069,6 +650,7 @@ export function MapView() {
         </span>
       </div>
 
+      {shortcuts.showHelp && <ShortcutHelp shortcuts={shortcuts.shortcuts} onClose={shortcuts.closeHelp} />}
     </div>
   );
 }
@@ -0,0 +1,48 @@
+import { DWELL_OPTIONS, PLAYBACK_MODE_OPTIONS } from '../lib/playback';
+import type { PlaybackMode } from '../lib/playback';
+
+interface PlaybackModeSelectProps {
+  mode: PlaybackMode;
+  dwellMs: number;
+  onModeChange: (mode: PlaybackMode) => void;
+  onDwellChange: (ms: number) => void;
+  className: string; // Each view styles its own selects
+  modeId?: string;
+  dwellId?: string;
+}
+
+// Playback mode and newest-frame dwell pickers
+export function PlaybackModeSelect({ mode, dwellMs, onModeChange, onDwellChange, className, modeId, dwellId }: PlaybackModeSelectProps) {
+  return (
+    <>
+      <select
+        id={modeId}
+        value={mode}
+        onChange={(e) => onModeChange(e.target.value as PlaybackMode)}
+        className={className}
+        aria-label="Playback mode"
+      >
+        {PLAYBACK_MODE_OPTIONS.map((opt) => (
+          <option key={opt.value} value={opt.value}>
+            {opt.label}
+          </option>
+        ))}
+      </select>
+
+      <select
+        id={dwellId}
+        value={dwellMs}
+        onChange={(e) => onDwellChange(Number(e.target.value))}
+        className={className}
+        title="Hold the newest frame before looping"
+        aria-label="Dwell on the newest frame"
+      >
+        {DWELL_OPTIONS.map((opt) => (
+          <option key={opt.value} value={opt.value}>
+            {opt.label}
+          </option>
+        ))}
+      </select>
+    </>
+  );
+}
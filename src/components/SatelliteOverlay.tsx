@@ -0,0 +1,112 @@
+import { useRef, useState } from 'react';
+import { formatLatLon } from '../lib/goesApi';
+import { imageToLatLon, latLonToImage } from '../lib/geoProjection';
+import type { ImageGeoref, LatLon } from '../lib/geoProjection';
+import { PLACES } from '../lib/places';
+import './SatelliteOverlay.css';
+
+interface SatelliteOverlayProps {
+  georef: ImageGeoref;
+  // Where the image is drawn inside its container (px)
+  rect: { left: number; top: number; width: number; height: number };
+  // Size of the container - when zoomed the rect runs past its edges, and the
+  // readout is kept inside
+  containerSize?: { width: number; height: number };
+  showLabels: boolean;
+  crosshairEnabled: boolean;
+  crosshair: LatLon | null;
+  onPin: (location: LatLon) => void;
+}
+
+// Max pointer travel (px) for a press to count as a tap rather than a swipe
+const TAP_SLOP = 10;
+
+// Coordinate readout, crosshair and place labels drawn over a satellite frame
+// Everything is stored as lat/lon, so it stays put as frames change
+export function SatelliteOverlay({
+  georef,
+  rect,
+  containerSize,
+  showLabels,
+  crosshairEnabled,
+  crosshair,
+  onPin,
+}: SatelliteOverlayProps) {
+  const [pointer, setPointer] = useState<LatLon | null>(null);
+  const pressStart = useRef<{ x: number; y: number } | null>(null);
+
+  const locate = (e: React.PointerEvent<HTMLDivElement>): LatLon | null => {
+    const bounds = e.currentTarget.getBoundingClientRect();
+    const u = (e.clientX - bounds.left) / bounds.width;
+    const v = (e.clientY - bounds.top) / bounds.height;
+    return imageToLatLon(georef, u, v);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    pressStart.current = { x: e.clientX, y: e.clientY };
+    setPointer(locate(e));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    const start = pressStart.current;
+    pressStart.current = null;
+    if (!start || !crosshairEnabled) return;
+    if (Math.hypot(e.clientX - start.x, e.clientY - start.y) > TAP_SLOP) return;
+    const location = locate(e);
+    if (location) onPin(location);
+  };
+
+  // Project a lat/lon into overlay pixels, or null when off-image
+  const project = (lat: number, lon: number) => {
+    const pos = latLonToImage(georef, lat, lon);
+    if (!pos || pos.u < 0 || pos.u > 1 || pos.v < 0 || pos.v > 1) return null;
+    return { x: pos.u * rect.width, y: pos.v * rect.height };
+  };
+
+  const crosshairPos = crosshairEnabled && crosshair ? project(crosshair.lat, crosshair.lon) : null;
+  const readoutStyle = containerSize && {
+    left: `calc(${Math.max(0, -rect.left)}px + 0.5rem)`,
+    bottom: `calc(${Math.max(0, rect.top + rect.height - containerSize.height)}px + 0.5rem)`,
+  };
+
+  return (
+    <div
+      className={`satellite-overlay ${crosshairEnabled ? 'pinning' : ''}`}
+      style={{ left: rect.left, top: rect.top, width: rect.width, height: rect.height }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={(e) => setPointer(locate(e))}
+      onPointerUp={handlePointerUp}
+      onPointerLeave={(e) => {
+        // Touch readouts stay up after the finger lifts
+        if (e.pointerType === 'mouse') setPointer(null);
+      }}
+    >
+      {showLabels && PLACES.map((place) => {
+        const pos = project(place.lat, place.lon);
+        if (!pos) return null;
+        return (
+          <div key={place.name} className="place-label" style={{ left: pos.x, top: pos.y }}>
+            <span className="place-dot" />
+            {place.name}
+          </div>
+        );
+      })}
+
+      {crosshairPos && (
+        <>
+          <div className="crosshair-line horizontal" style={{ top: crosshairPos.y }} />
+          <div className="crosshair-line vertical" style={{ left: crosshairPos.x }} />
+        </>
+      )}
+
+      {(pointer || (crosshairEnabled && crosshair)) && (
+        <div className="coord-readout" style={readoutStyle}>
+          {pointer && <span>{formatLatLon(pointer.lat, pointer.lon, 2)}</span>}
+          {crosshairEnabled && crosshair && (
+            <span className="coord-pinned">⌖ {formatLatLon(crosshair.lat, crosshair.lon, 2)}</span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+import type { ShortcutHelpEntry } from '../hooks/useShortcuts';
+import './ShortcutHelp.css';
+
+interface ShortcutHelpProps {
+  shortcuts: ShortcutHelpEntry[];
+  onClose: () => void;
+}
+
+// Keyboard shortcut reference, opened with "?"
+export function ShortcutHelp({ shortcuts, onClose }: ShortcutHelpProps) {
+  return (
+    <div className="shortcut-help-backdrop" onClick={onClose}>
+      <div
+        className="shortcut-help"
+        role="dialog"
+        aria-label="Keyboard shortcuts"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2>Keyboard shortcuts</h2>
+        <dl>
+          {shortcuts.map((shortcut) => (
+            <div key={shortcut.label} className="shortcut-row">
+              <dt><kbd>{shortcut.label}</kbd></dt>
+              <dd>{shortcut.description}</dd>
+            </div>
+          ))}
+        </dl>
+        <button onClick={onClose} className="shortcut-help-close">Close</button>
+      </div>
+    </div>
+  );
+}
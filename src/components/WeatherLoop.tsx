@@ -1,23 +1,39 @@
-import { useRef, useCallback } from 'react';
+import { useRef, useCallback, useState, useEffect, useMemo } from 'react';
 import { useWeatherLoop } from '../hooks/useWeatherLoop';
-import { SECTORS } from '../lib/goesApi';
-import type { Sector, ImageType } from '../lib/goesApi';
+import type { LoopWindow, PlaybackTiming } from '../hooks/useWeatherLoop';
+import { SECTORS, getProductsForSector, formatLatLon, formatSatelliteName, isMesoSector } from '../lib/goesApi';
+import type { Sector, ImageType, ResolutionPolicy } from '../lib/goesApi';
+import { exportLoopBundle, importLoopBundle } from '../lib/imageCache';
+import { getImageGeoref, getContainedImageRect } from '../lib/geoProjection';
+import type { LatLon } from '../lib/geoProjection';
+import { useFrameDecoder } from '../hooks/useFrameDecoder';
+import { useMotionFlow } from '../hooks/useMotionFlow';
+import { INTERPOLATION_FACTORS, INTERPOLATION_MODE_OPTIONS } from '../lib/frameInterpolation';
+import type { InterpolationMode } from '../lib/frameInterpolation';
+import { SatelliteOverlay } from './SatelliteOverlay';
+import { FrameCanvas } from './FrameCanvas';
+import { ShortcutHelp } from './ShortcutHelp';
+import { useShortcuts } from '../hooks/useShortcuts';
+import { useViewport } from '../hooks/useViewport';
+import { transformRect, getVisibleImageRegion } from '../lib/viewport';
+import { ZoomMinimap } from './ZoomMinimap';
+import { PlaybackModeSelect } from './PlaybackModeSelect';
 import {
   SkipBack,
   Play,
   Pause,
   SkipForward,
   RefreshCw,
+  Crosshair,
+  MapPin,
+  WifiOff,
+  Download,
+  FolderOpen,
+  Radio,
+  ZoomOut,
 } from 'lucide-react';
 import './WeatherLoop.css';
 
-const IMAGE_TYPES: { value: ImageType; label: string }[] = [
-  { value: 'GEOCOLOR', label: 'GeoColor' },
-  { value: 'Band02', label: 'Visible' },
-  { value: 'Band13', label: 'IR Clean' },
-  { value: 'Band14', label: 'IR Window' },
-];
-
 const SPEED_OPTIONS = [
   { value: 50, label: 'Fast' },
   { value: 150, label: 'Normal' },
@@ -25,30 +41,268 @@ const SPEED_OPTIONS = [
   { value: 500, label: 'Very Slow' },
 ];
 
+// Next speed option in the given direction, staying put at either end
+function stepSpeed(speed: number, faster: boolean): number {
+  const index = SPEED_OPTIONS.findIndex((opt) => opt.value === speed);
+  const next = Math.max(0, Math.min(SPEED_OPTIONS.length - 1, index + (faster ? -1 : 1)));
+  return SPEED_OPTIONS[next].value;
+}
+
+// How often the live indicator's frame age updates
+const LIVE_CLOCK_MS = 15 * 1000;
+
+const WINDOW_OPTIONS = [
+  { value: 'latest', label: 'Latest' },
+  { value: '3', label: 'Last 3h' },
+  { value: '6', label: 'Last 6h' },
+  { value: '12', label: 'Last 12h' },
+  { value: '24', label: 'Last 24h' },
+  { value: 'custom', label: 'Custom…' },
+];
+
+// Window selector value for a loop window
+function getWindowValue(loopWindow: LoopWindow): string {
+  if (loopWindow.mode === 'lastHours') return String(loopWindow.hours);
+  if (loopWindow.mode === 'range') return 'custom';
+  if (loopWindow.mode === 'bundle') return 'bundle';
+  return 'latest';
+}
+
+// Download name for a saved loop, e.g. "weather-loop-northeast-GEOCOLOR-20250101T1200Z.zip"
+function getBundleFileName(sector: Sector, imageType: ImageType, newest: Date): string {
+  const stamp = newest.toISOString().slice(0, 16).replace(/[-:]/g, '');
+  return `weather-loop-${sector}-${imageType}-${stamp}Z.zip`;
+}
+
+// Date as a datetime-local input value (local time, minute precision)
+function toLocalInputValue(date: Date): string {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+  return local.toISOString().slice(0, 16);
+}
+
+// Scan time in the viewer's local time, e.g. "2:05 PM"
+function formatScanTime(date: Date): string {
+  return date.toLocaleTimeString('en-US', {
+    hour: 'numeric',
+    minute: '2-digit',
+    hour12: true,
+  });
+}
+
+// How long ago a scan was taken, e.g. "4m" or "1h 10m"
+function formatScanAge(scanTime: Date, now: number): string {
+  const minutes = Math.max(0, Math.floor((now - scanTime.getTime()) / 60000));
+  if (minutes < 60) return `${minutes}m`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+// Quality selector value for a resolution policy
+function getQualityValue(policy: ResolutionPolicy): string {
+  if (policy.mode === 'explicit') return policy.resolution;
+  if (policy.mode === 'saver') return 'saver';
+  return 'auto';
+}
+
 export function WeatherLoop() {
   const [state, controls] = useWeatherLoop('northeast', 'GEOCOLOR');
   const framePickerRef = useRef<HTMLDivElement>(null);
+  const imageContainerRef = useRef<HTMLDivElement>(null);
+  const [showCustomWindow, setShowCustomWindow] = useState(false);
+  const [customStart, setCustomStart] = useState(() => toLocalInputValue(new Date(Date.now() - 12 * 60 * 60 * 1000)));
+  const [customEnd, setCustomEnd] = useState(() => toLocalInputValue(new Date()));
+  const [containerSize, setContainerSize] = useState({ width: 0, height: 0 });
+  const [showLabels, setShowLabels] = useState(false);
+  const [crosshairEnabled, setCrosshairEnabled] = useState(false);
+  const [crosshair, setCrosshair] = useState<LatLon | null>(null);
+  const [bundleError, setBundleError] = useState<string | null>(null);
+  const bundleInputRef = useRef<HTMLInputElement>(null);
   const touchStartX = useRef<number>(0);
+  const multiTouch = useRef(false);
+  const [now, setNow] = useState(() => Date.now());
 
   const {
     frames,
     currentFrame,
     isPlaying,
     isLoading,
+    isRefreshing,
+    isLive,
     loadingProgress,
     error,
     sector,
     imageType,
+    satellite,
     speed,
+    playbackTiming,
+    playbackMode,
+    dwellMs,
+    interpolation,
+    frameGaps,
     cacheStats,
+    frameHandles,
+    mesoLocation,
+    resolution,
+    resolutions,
+    resolutionPolicy,
+    loopWindow,
+    missingScans,
+    windowFrameCount,
+    offlineAsOf,
+    tabRole,
   } = state;
 
+  // Tick the clock while live so the newest frame's age stays current
+  useEffect(() => {
+    if (!isLive) return;
+    const timer = window.setInterval(() => setNow(Date.now()), LIVE_CLOCK_MS);
+    return () => window.clearInterval(timer);
+  }, [isLive]);
+
+  const toggleLive = () => {
+    setNow(Date.now());
+    controls.setLive(!isLive);
+  };
+
+  // Frames are decoded off the main thread ahead of the playhead
+  const decoder = useFrameDecoder(frames, currentFrame);
+
+  // Product selector options, built from the catalog for the current sector
+  const imageTypes = getProductsForSector(sector);
+
+  // Track the image container size so overlays can follow the drawn image
+  useEffect(() => {
+    const container = imageContainerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setContainerSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  // Navigation for the displayed frame - null when the sector can't be georeferenced
+  const displayedFrame = frames.length > 0 ? frames[Math.min(currentFrame, frames.length - 1)] : null;
+  // Blend toward the frame playback moves to next - motion blending estimates
+  // the flow between each pair once, crossfading until it's ready
+  const transition = isPlaying && state.transition?.from === currentFrame && state.transition.to < frames.length
+    ? state.transition
+    : null;
+  const upcomingFrame = transition ? frames[transition.to] : null;
+  const upcomingBitmap = upcomingFrame ? decoder.bitmaps.get(upcomingFrame.objectUrl) : undefined;
+  const flow = useMotionFlow(
+    interpolation.mode === 'motion' && displayedFrame && upcomingFrame
+      ? { key: displayedFrame.objectUrl, bitmap: decoder.bitmaps.get(displayedFrame.objectUrl) }
+      : null,
+    interpolation.mode === 'motion' && upcomingFrame
+      ? { key: upcomingFrame.objectUrl, bitmap: upcomingBitmap }
+      : null
+  );
+  const blend = useMemo(
+    () => transition && {
+      next: upcomingBitmap,
+      startedAt: transition.startedAt,
+      delayMs: transition.delayMs,
+      durationMs: transition.durationMs,
+      factor: interpolation.factor,
+      flow,
+    },
+    [transition, upcomingBitmap, interpolation.factor, flow]
+  );
+
+  const georef = displayedFrame ? getImageGeoref(sector, displayedFrame.satellite, mesoLocation) : null;
+  const imageRect = displayedFrame
+    ? getContainedImageRect(displayedFrame.resolution, containerSize.width, containerSize.height)
+    : null;
+
+  // Zoom and pan carry over from frame to frame, but not to another image
+  const [viewport, viewportControls] = useViewport(imageContainerRef, containerSize, `${sector}/${imageType}`);
+  const isZoomed = viewport.scale > 1;
+  const zoomedRect = imageRect && transformRect(imageRect, viewport);
+
+  // Auto quality fits frames to the image container at the screen's pixel density
+  const handleQualityChange = useCallback((value: string) => {
+    if (value === 'auto') {
+      const container = imageContainerRef.current;
+      controls.setResolutionPolicy({
+        mode: 'fit',
+        width: container?.clientWidth ?? window.innerWidth,
+        height: container?.clientHeight ?? window.innerHeight,
+        devicePixelRatio: window.devicePixelRatio || 1,
+      });
+    } else if (value === 'saver') {
+      controls.setResolutionPolicy({ mode: 'saver' });
+    } else {
+      controls.setResolutionPolicy({ mode: 'explicit', resolution: value });
+    }
+  }, [controls]);
+
+  const handleWindowChange = useCallback((value: string) => {
+    if (value === 'bundle') return;
+    if (value === 'custom') {
+      setShowCustomWindow(true);
+      return;
+    }
+    setShowCustomWindow(false);
+    controls.setLoopWindow(
+      value === 'latest' ? { mode: 'latest' } : { mode: 'lastHours', hours: Number(value) }
+    );
+  }, [controls]);
+
+  const applyCustomWindow = useCallback(() => {
+    const start = new Date(customStart);
+    const end = new Date(customEnd);
+    if (isNaN(start.getTime()) || isNaN(end.getTime()) || start >= end) return;
+    controls.setLoopWindow({ mode: 'range', start, end });
+  }, [controls, customStart, customEnd]);
+
+  // Save the current loop as a bundle file
+  const handleSaveLoop = useCallback(async () => {
+    if (frames.length === 0) return;
+    setBundleError(null);
+    try {
+      const bundle = await exportLoopBundle(frames);
+      const url = URL.createObjectURL(bundle);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = getBundleFileName(sector, imageType, frames[frames.length - 1].scanTime);
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+    } catch (err) {
+      console.error('Error saving loop:', err);
+      setBundleError(err instanceof Error ? err.message : 'Could not save loop');
+    }
+  }, [frames, sector, imageType]);
+
+  // Open a saved bundle - its frames are imported into the cache and played
+  const handleOpenLoop = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow reopening the same file
+    if (!file) return;
+    setBundleError(null);
+    try {
+      const bundle = await importLoopBundle(file);
+      setShowCustomWindow(false);
+      controls.openBundle(bundle, file.name.replace(/\.zip$/i, ''));
+    } catch (err) {
+      console.error('Error opening loop:', err);
+      setBundleError(err instanceof Error ? err.message : 'Could not open loop');
+    }
+  }, [controls]);
+
   // Handle touch/swipe on frame picker
   const handleTouchStart = useCallback((e: React.TouchEvent) => {
-    touchStartX.current = e.touches[0].clientX;
+    if (e.touches.length === 1) {
+      touchStartX.current = e.touches[0].clientX;
+      multiTouch.current = false;
+    } else {
+      multiTouch.current = true;
+    }
   }, []);
 
   const handleTouchEnd = useCallback((e: React.TouchEvent) => {
+    // Pinches and drags on the zoomed image move the view, not the frame
+    if (e.touches.length > 0 || multiTouch.current) return;
+    if (isZoomed && e.currentTarget === imageContainerRef.current) return;
     const touchEndX = e.changedTouches[0].clientX;
     const diff = touchStartX.current - touchEndX;
     const threshold = 30; // minimum swipe distance
@@ -62,7 +316,29 @@ export function WeatherLoop() {
         controls.prevFrame();
       }
     }
-  }, [controls]);
+  }, [controls, isZoomed]);
+
+  // Number keys pick sectors in selector order
+  const selectSector = (index: number) => {
+    const key = (Object.keys(SECTORS) as Sector[])[index];
+    if (key) controls.setSector(key);
+  };
+  const shortcuts = useShortcuts(
+    {
+      ...(frames.length > 0 && {
+        togglePlay: controls.toggle,
+        prevFrame: controls.prevFrame,
+        nextFrame: controls.nextFrame,
+        firstFrame: () => controls.goToFrame(0),
+        lastFrame: () => controls.goToFrame(frames.length - 1),
+        faster: () => controls.setSpeed(stepSpeed(speed, true)),
+        slower: () => controls.setSpeed(stepSpeed(speed, false)),
+      }),
+      // Like the sector menu, unavailable while a loop is loading
+      ...(!isLoading && { selectSlot: selectSector }),
+    },
+    { selectSlot: 'Sector, in menu order' }
+  );
 
   return (
     <div className="weather-loop">
@@ -89,19 +365,132 @@ export function WeatherLoop() {
           disabled={isLoading}
           className="select-secondary"
         >
-          {IMAGE_TYPES.map((type) => (
-            <option key={type.value} value={type.value}>
-              {type.label}
+          <optgroup label="Composites">
+            {imageTypes.filter((type) => type.info.kind === 'composite').map((type) => (
+              <option key={type.value} value={type.value} title={type.info.description}>
+                {type.label}
+              </option>
+            ))}
+          </optgroup>
+          <optgroup label="ABI Bands">
+            {imageTypes.filter((type) => type.info.kind === 'band').map((type) => (
+              <option key={type.value} value={type.value} title={type.info.description}>
+                {type.label}
+              </option>
+            ))}
+          </optgroup>
+        </select>
+      </div>
+
+      {/* Time Window */}
+      <div className="window-row">
+        <select
+          id="window-select"
+          value={showCustomWindow ? 'custom' : getWindowValue(loopWindow)}
+          onChange={(e) => handleWindowChange(e.target.value)}
+          disabled={isLoading}
+          className="select-small"
+        >
+          {WINDOW_OPTIONS.map((opt) => (
+            <option key={opt.value} value={opt.value}>
+              {opt.label}
             </option>
           ))}
+          {loopWindow.mode === 'bundle' && (
+            <option value="bundle">Saved: {loopWindow.name}</option>
+          )}
         </select>
+
+        {showCustomWindow && (
+          <>
+            <input
+              type="datetime-local"
+              value={customStart}
+              onChange={(e) => setCustomStart(e.target.value)}
+              className="window-input"
+              aria-label="Window start"
+            />
+            <input
+              type="datetime-local"
+              value={customEnd}
+              onChange={(e) => setCustomEnd(e.target.value)}
+              className="window-input"
+              aria-label="Window end"
+            />
+            <button onClick={applyCustomWindow} disabled={isLoading} className="window-apply">
+              Apply
+            </button>
+          </>
+        )}
+
+        {loopWindow.mode !== 'latest' && loopWindow.mode !== 'bundle' && !isLoading && (
+          <span className="window-info">
+            {windowFrameCount > frames.length && `${frames.length} of ${windowFrameCount} frames`}
+            {missingScans.length > 0 && (
+              <span
+                className="missing-scans"
+                title={missingScans.map(formatScanTime).join(', ')}
+              >
+                {missingScans.length} missing scan{missingScans.length === 1 ? '' : 's'}
+              </span>
+            )}
+          </span>
+        )}
+
+        <div className="bundle-actions">
+          <button
+            onClick={handleSaveLoop}
+            disabled={isLoading || frames.length === 0}
+            className="window-apply"
+            title="Save loop - download these frames as a bundle"
+          >
+            <Download size={14} />
+            Save loop
+          </button>
+          <button
+            onClick={() => bundleInputRef.current?.click()}
+            disabled={isLoading}
+            className="window-apply"
+            title="Open loop - play a saved bundle"
+          >
+            <FolderOpen size={14} />
+            Open loop
+          </button>
+          <input
+            ref={bundleInputRef}
+            type="file"
+            accept=".zip,application/zip"
+            onChange={handleOpenLoop}
+            hidden
+          />
+        </div>
+        {bundleError && <span className="bundle-error">{bundleError}</span>}
       </div>
 
+      {/* Mesoscale sectors move - show where this one is currently pointed */}
+      {isMesoSector(sector) && (
+        <div className="meso-location">
+          {mesoLocation
+            ? `Centered at ${formatLatLon(mesoLocation.lat, mesoLocation.lon)}`
+            : 'Locating meso sector…'}
+        </div>
+      )}
+
+      {/* Playing a cached loop - reconnects on its own when the network returns */}
+      {offlineAsOf && (
+        <div className="offline-banner" role="status">
+          <WifiOff size={14} />
+          Offline – data as of {formatScanTime(offlineAsOf)}
+        </div>
+      )}
+
       {/* Main Image Display - shows frames progressively while loading */}
       <div
-        className="image-container"
+        className={`image-container ${isZoomed ? 'zoomed' : ''}`}
+        ref={imageContainerRef}
         onTouchStart={handleTouchStart}
         onTouchEnd={handleTouchEnd}
+        {...viewportControls.handlers}
       >
         {error ? (
           <div className="error">
@@ -113,12 +502,83 @@ export function WeatherLoop() {
           </div>
         ) : frames.length > 0 ? (
           <>
-            <img
-              src={frames[Math.min(currentFrame, frames.length - 1)]}
-              alt={`Satellite frame ${currentFrame + 1}/${frames.length}`}
-              className="satellite-image"
-              draggable={false}
-            />
+            <div
+              className="image-viewport"
+              style={{ transform: `translate(${viewport.x}px, ${viewport.y}px) scale(${viewport.scale})` }}
+            >
+              <FrameCanvas
+                bitmap={displayedFrame ? decoder.bitmaps.get(displayedFrame.objectUrl) : undefined}
+                fallbackUrl={frames[Math.min(currentFrame, frames.length - 1)].objectUrl}
+                alt={`Satellite frame ${currentFrame + 1}/${frames.length}`}
+                blend={blend}
+              />
+            </div>
+            {georef && zoomedRect && (
+              <SatelliteOverlay
+                georef={georef}
+                rect={zoomedRect}
+                containerSize={containerSize}
+                showLabels={showLabels}
+                crosshairEnabled={crosshairEnabled}
+                crosshair={crosshair}
+                onPin={setCrosshair}
+              />
+            )}
+            {(georef || isZoomed) && (
+              <div className="overlay-toggles">
+                {isZoomed && (
+                  <button
+                    className="overlay-btn zoom-reset"
+                    onClick={viewportControls.reset}
+                    aria-label="Reset zoom"
+                    title="Reset zoom (double-click or double-tap also resets)"
+                  >
+                    <ZoomOut size={16} />
+                    <span className="zoom-level">{viewport.scale.toFixed(1)}×</span>
+                  </button>
+                )}
+                {georef && (
+                  <>
+                    <button
+                      className={`overlay-btn ${showLabels ? 'active' : ''}`}
+                      onClick={() => setShowLabels((v) => !v)}
+                      aria-label="Toggle place labels"
+                      title="Place labels"
+                    >
+                      <MapPin size={16} />
+                    </button>
+                    <button
+                      className={`overlay-btn ${crosshairEnabled ? 'active' : ''}`}
+                      onClick={() => {
+                        setCrosshairEnabled((v) => !v);
+                        setCrosshair(null);
+                      }}
+                      aria-label="Toggle crosshair"
+                      title="Crosshair - tap the image to pin a location"
+                    >
+                      <Crosshair size={16} />
+                    </button>
+                  </>
+                )}
+              </div>
+            )}
+            {isZoomed && imageRect && (
+              <ZoomMinimap
+                src={frames[Math.min(currentFrame, frames.length - 1)].objectUrl}
+                aspectRatio={imageRect.width / imageRect.height}
+                region={getVisibleImageRegion(viewport, containerSize, imageRect)}
+                onNavigate={(u, v) => viewportControls.centerOn(
+                  imageRect.left + u * imageRect.width,
+                  imageRect.top + v * imageRect.height
+                )}
+              />
+            )}
+            {isLive && (
+              <div className="live-indicator" role="status" title="Polling for new scans">
+                <span className="live-dot" />
+                LIVE • {formatScanAge(frames[frames.length - 1].scanTime, now)}
+              </div>
+            )}
             {isLoading && (
               <div className="loading-overlay">
                 <div className="progress-text">{Math.round(loadingProgress)}%</div>
@@ -166,17 +626,39 @@ export function WeatherLoop() {
 
         <button
           onClick={controls.refresh}
-          disabled={isLoading}
+          disabled={isLoading || isRefreshing}
           className="control-btn"
           aria-label="Refresh"
         >
-          <RefreshCw size={28} className={isLoading ? 'spinning' : ''} />
+          <RefreshCw size={28} className={isLoading || isRefreshing ? 'spinning' : ''} />
+        </button>
+
+        <button
+          onClick={toggleLive}
+          disabled={loopWindow.mode !== 'latest'}
+          className={`control-btn ${isLive ? 'live' : ''}`}
+          aria-label="Live mode"
+          aria-pressed={isLive}
+          title="Live - keep fetching new scans as they arrive"
+        >
+          <Radio size={26} />
         </button>
       </div>
 
       {/* Frame Scrubber */}
       {frames.length > 0 && (
         <div className="scrubber-container">
+          {/* Gap markers sit where scans are missing between two frames */}
+          <div className="scrubber-track">
+            {frames.length > 1 && frameGaps.map((gap, index) => gap > 0 && (
+              <span
+                key={index}
+                className="scrubber-gap"
+                style={{ left: `${((index - 0.5) / (frames.length - 1)) * 100}%` }}
+                title={`${gap} missing scan${gap === 1 ? '' : 's'}`}
+              />
+            ))}
+          </div>
           <input
             type="range"
             min={0}
@@ -187,6 +669,18 @@ export function WeatherLoop() {
           />
           <div className="frame-info">
             {currentFrame + 1} / {frames.length}
+            {frames[currentFrame] && ` • ${formatScanTime(frames[currentFrame].scanTime)}`}
+            {' • '}
+            <span
+              className={`decode-status ${decoder.fullyDecoded ? 'ready' : ''}`}
+              title={decoder.budgetLimited
+                ? `Loop exceeds the decode memory budget - frames are decoded just ahead of playback (${decoder.decodedMB} MB)`
+                : `${decoder.decodedMB} MB decoded`}
+            >
+              {decoder.fullyDecoded
+                ? 'Decoded'
+                : `Decoding ${decoder.decodedCount}/${frames.length}${decoder.budgetLimited ? ' (memory limit)' : ''}`}
+            </span>
           </div>
         </div>
       )}
@@ -206,6 +700,81 @@ export function WeatherLoop() {
             </option>
           ))}
         </select>
+
+        <select
+          id="timing-select"
+          value={playbackTiming}
+          onChange={(e) => controls.setPlaybackTiming(e.target.value as PlaybackTiming)}
+          className="select-small"
+          title="Real time holds frames across missing scans"
+        >
+          <option value="uniform">Uniform</option>
+          <option value="realtime">Real Time</option>
+        </select>
+
+        <PlaybackModeSelect
+          mode={playbackMode}
+          dwellMs={dwellMs}
+          onModeChange={controls.setPlaybackMode}
+          onDwellChange={controls.setDwell}
+          className="select-small"
+          modeId="mode-select"
+          dwellId="dwell-select"
+        />
+
+        <select
+          id="interpolation-select"
+          value={interpolation.mode}
+          onChange={(e) => controls.setInterpolation({ ...interpolation, mode: e.target.value as InterpolationMode })}
+          className="select-small"
+          title="Draw in-between frames while playing"
+        >
+          {INTERPOLATION_MODE_OPTIONS.map((opt) => (
+            <option key={opt.value} value={opt.value}>
+              {opt.label}
+            </option>
+          ))}
+        </select>
+
+        <select
+          id="interpolation-factor-select"
+          value={interpolation.factor}
+          onChange={(e) => controls.setInterpolation({ ...interpolation, factor: Number(e.target.value) })}
+          disabled={interpolation.mode === 'off'}
+          className="select-small"
+          title="Steps drawn per frame"
+        >
+          {INTERPOLATION_FACTORS.map((factor) => (
+            <option key={factor} value={factor}>
+              {factor}×
+            </option>
+          ))}
+        </select>
+
+        <span className="speed-label">Quality</span>
+        <select
+          id="quality-select"
+          value={getQualityValue(resolutionPolicy)}
+          onChange={(e) => handleQualityChange(e.target.value)}
+          disabled={isLoading}
+          className="select-small"
+        >
+          <option value="auto">
+            {resolutionPolicy.mode === 'fit' && resolution ? `Auto (${resolution})` : 'Auto'}
+          </option>
+          <option value="saver">
+            {resolutionPolicy.mode === 'saver' && resolution ? `Data Saver (${resolution})` : 'Data Saver'}
+          </option>
+          {resolutions.map((res) => (
+            <option key={res} value={res}>
+              {res}
+            </option>
+          ))}
+          {/* Keep an explicit choice selectable even if this product lacks it */}
+          {resolutionPolicy.mode === 'explicit' && !resolutions.includes(resolutionPolicy.resolution) && (
+            <option value={resolutionPolicy.resolution}>{resolutionPolicy.resolution}</option>
+          )}
+        </select>
       </div>
 
       {/* Frame Picker - Swipeable */}
@@ -217,12 +786,15 @@ export function WeatherLoop() {
           onTouchEnd={handleTouchEnd}
         >
           <div className="frame-dots-container">
-            {frames.map((_, index) => (
+            {frames.map((frame, index) => (
               <button
-                key={index}
-                className={`frame-dot ${index === currentFrame ? 'active' : ''}`}
+                key={frame.url}
+                className={`frame-dot ${index === currentFrame ? 'active' : ''} ${frameGaps[index] > 0 ? 'after-gap' : ''}`}
                 onClick={() => controls.goToFrame(index)}
                 aria-label={`Go to frame ${index + 1}`}
+                title={frameGaps[index] > 0
+                  ? `${formatScanTime(frame.scanTime)} (${frameGaps[index]} missing before)`
+                  : formatScanTime(frame.scanTime)}
               />
             ))}
           </div>
@@ -233,16 +805,30 @@ export function WeatherLoop() {
       <footer className="footer">
         <span className="cache-stats">
           {cacheStats.count} frames • {cacheStats.sizeMB} MB
+          <span title="Frame images held in memory">
+            {' · '}{frameHandles.count} live • {frameHandles.sizeMB} MB
+          </span>
+          {tabRole === 'follower' && (
+            <span title="Another tab is fetching this loop - new frames arrive through the shared cache">
+              {' · '}following other tab
+            </span>
+          )}
         </span>
         <a
           href="https://www.star.nesdis.noaa.gov/goes/"
           target="_blank"
           rel="noopener noreferrer"
           className="source-link"
+          title={satellite !== SECTORS[sector].satellite
+            ? `${formatSatelliteName(SECTORS[sector].satellite)} unavailable - using backup satellite`
+            : undefined}
         >
-          NOAA GOES-19
+          NOAA {formatSatelliteName(satellite)}
+          {satellite !== SECTORS[sector].satellite && ' (backup)'}
         </a>
       </footer>
+
+      {shortcuts.showHelp && <ShortcutHelp shortcuts={shortcuts.shortcuts} onClose={shortcuts.closeHelp} />}
     </div>
   );
 }
@@ -0,0 +1,57 @@
+import { useRef } from 'react';
+import type { ViewportRect } from '../lib/viewport';
+
+interface ZoomMinimapProps {
+  src: string;
+  aspectRatio: number; // Image width / height
+  // Part of the image on screen, as fractions of the image
+  region: ViewportRect;
+  // Center the view on a point of the image (fractions)
+  onNavigate: (u: number, v: number) => void;
+}
+
+// Whole-frame inset shown while zoomed, outlining the part on screen
+// Clicking or dragging on it moves the view there
+export function ZoomMinimap({ src, aspectRatio, region, onNavigate }: ZoomMinimapProps) {
+  const draggingRef = useRef(false);
+
+  const navigate = (e: React.PointerEvent<HTMLDivElement>) => {
+    const bounds = e.currentTarget.getBoundingClientRect();
+    const u = Math.max(0, Math.min(1, (e.clientX - bounds.left) / bounds.width));
+    const v = Math.max(0, Math.min(1, (e.clientY - bounds.top) / bounds.height));
+    onNavigate(u, v);
+  };
+
+  return (
+    <div
+      className="zoom-minimap"
+      style={{ aspectRatio }}
+      onPointerDown={(e) => {
+        draggingRef.current = true;
+        e.currentTarget.setPointerCapture(e.pointerId);
+        navigate(e);
+      }}
+      onPointerMove={(e) => {
+        if (draggingRef.current) navigate(e);
+      }}
+      onPointerUp={() => {
+        draggingRef.current = false;
+      }}
+      onPointerCancel={() => {
+        draggingRef.current = false;
+      }}
+      aria-hidden="true"
+    >
+      <img src={src} alt="" draggable={false} />
+      <div
+        className="zoom-minimap-region"
+        style={{
+          left: `${region.left * 100}%`,
+          top: `${region.top * 100}%`,
+          width: `${region.width * 100}%`,
+          height: `${region.height * 100}%`,
+        }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,163 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { parseResolution } from '../lib/goesApi';
+import type { LoopFrame } from './useWeatherLoop';
+import type { DecodeRequest, DecodeResponse } from '../workers/frameDecoder.worker';
+
+export interface DecoderState {
+  // Decoded frames keyed by object URL
+  bitmaps: Map<string, ImageBitmap>;
+  decodedCount: number;
+  fullyDecoded: boolean;
+  // True when the loop doesn't fit the memory budget - only frames just ahead
+  // of the playhead are kept decoded
+  budgetLimited: boolean;
+  decodedMB: number;
+}
+
+// Decoded bitmaps are raw RGBA - 24 frames at 1200x1200 take ~140 MB
+const DEFAULT_DECODE_BUDGET = 384 * 1024 * 1024;
+// Decodes in flight at once - low so the playhead can steer what's next
+const MAX_PENDING = 2;
+
+// Bytes an RGBA bitmap of this resolution will take (0 when unknown)
+function estimateBytes(resolution: string): number {
+  if (!/^\d+x\d+$/.test(resolution)) return 0;
+  const { width, height } = parseResolution(resolution);
+  return width * height * 4;
+}
+
+const bitmapBytes = (bitmap: ImageBitmap) => bitmap.width * bitmap.height * 4;
+
+// Closed bitmaps report a 0x0 size
+export function isUsable(bitmap: ImageBitmap | undefined): bitmap is ImageBitmap {
+  return bitmap !== undefined && bitmap.width > 0;
+}
+
+// Decode loop frames to ImageBitmaps in a worker so playback never waits on
+// JPEG decoding. Frames are decoded in playback order from the playhead; when
+// the budget runs out, frames furthest behind the playhead are dropped first.
+export function useFrameDecoder(
+  frames: LoopFrame[],
+  currentFrame: number,
+  budgetBytes: number = DEFAULT_DECODE_BUDGET
+): DecoderState {
+  const [bitmaps, setBitmaps] = useState<Map<string, ImageBitmap>>(() => new Map());
+
+  const workerRef = useRef<Worker | null>(null);
+  const bitmapsRef = useRef(new Map<string, ImageBitmap>());
+  const pendingRef = useRef(new Set<string>());
+  const framesRef = useRef(frames);
+  const currentFrameRef = useRef(currentFrame);
+
+  // Queue the next frames to decode, evicting behind the playhead to stay in budget
+  const pump = useCallback(() => {
+    const worker = workerRef.current;
+    const loopFrames = framesRef.current;
+    const count = loopFrames.length;
+    if (!worker || count === 0) return;
+
+    const decoded = bitmapsRef.current;
+    const pending = pendingRef.current;
+    const start = Math.min(currentFrameRef.current, count - 1);
+    const distance = (index: number) => (index - start + count) % count;
+
+    let used = 0;
+    decoded.forEach((bitmap) => { used += bitmapBytes(bitmap); });
+    loopFrames.forEach((frame) => {
+      if (pending.has(frame.objectUrl)) used += estimateBytes(frame.resolution);
+    });
+
+    for (let step = 0; step < count && pending.size < MAX_PENDING; step++) {
+      const frame = loopFrames[(start + step) % count];
+      if (decoded.has(frame.objectUrl) || pending.has(frame.objectUrl)) continue;
+
+      // Make room by dropping decoded frames that play after this one
+      const needed = estimateBytes(frame.resolution);
+      while (used + needed > budgetBytes) {
+        let victim = -1;
+        for (let i = 0; i < count; i++) {
+          if (decoded.has(loopFrames[i].objectUrl) && distance(i) > step && (victim === -1 || distance(i) > distance(victim))) {
+            victim = i;
+          }
+        }
+        if (victim === -1) break;
+        const bitmap = decoded.get(loopFrames[victim].objectUrl)!;
+        used -= bitmapBytes(bitmap);
+        bitmap.close();
+        decoded.delete(loopFrames[victim].objectUrl);
+      }
+      if (used + needed > budgetBytes) break;
+
+      pending.add(frame.objectUrl);
+      used += needed;
+      const request: DecodeRequest = { url: frame.objectUrl };
+      worker.postMessage(request);
+    }
+  }, [budgetBytes]);
+
+  // One worker for the component's lifetime
+  useEffect(() => {
+    const worker = new Worker(new URL('../workers/frameDecoder.worker.ts', import.meta.url), { type: 'module' });
+    workerRef.current = worker;
+    const decoded = bitmapsRef.current;
+    const pending = pendingRef.current;
+
+    worker.onmessage = (event: MessageEvent<DecodeResponse>) => {
+      const response = event.data;
+      pending.delete(response.url);
+
+      if ('error' in response) {
+        console.warn('Failed to decode frame:', response.error);
+      } else if (framesRef.current.some((frame) => frame.objectUrl === response.url)) {
+        decoded.set(response.url, response.bitmap);
+        setBitmaps(new Map(decoded));
+      } else {
+        // Frame left the loop while decoding
+        response.bitmap.close();
+      }
+      pump();
+    };
+
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+      decoded.forEach((bitmap) => bitmap.close());
+      decoded.clear();
+      pending.clear();
+    };
+  }, [pump]);
+
+  // New loop - release bitmaps for frames that left it and start decoding
+  useEffect(() => {
+    framesRef.current = frames;
+    const urls = new Set(frames.map((frame) => frame.objectUrl));
+    const decoded = bitmapsRef.current;
+    decoded.forEach((bitmap, url) => {
+      if (!urls.has(url)) {
+        bitmap.close();
+        decoded.delete(url);
+      }
+    });
+    pump();
+  }, [frames, pump]);
+
+  // Keep decoding ahead of the playhead
+  useEffect(() => {
+    currentFrameRef.current = currentFrame;
+    pump();
+  }, [currentFrame, pump]);
+
+  // State can still hold bitmaps that were evicted (closed, so 0x0) or left
+  // the loop until the next decode lands - count only usable ones
+  const live = frames.filter((frame) => isUsable(bitmaps.get(frame.objectUrl)));
+  const decodedBytes = live.reduce((sum, frame) => sum + bitmapBytes(bitmaps.get(frame.objectUrl)!), 0);
+  const loopBytes = frames.reduce((sum, frame) => sum + estimateBytes(frame.resolution), 0);
+
+  return {
+    bitmaps,
+    decodedCount: live.length,
+    fullyDecoded: frames.length > 0 && live.length === frames.length,
+    budgetLimited: loopBytes > budgetBytes,
+    decodedMB: Math.round(decodedBytes / 1024 / 1024),
+  };
+}
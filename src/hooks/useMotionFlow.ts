@@ -0,0 +1,94 @@
+import { useState, useEffect, useRef } from 'react';
+import { FLOW_SAMPLE_SIZE } from '../lib/frameInterpolation';
+import type { FlowField } from '../lib/frameInterpolation';
+import { isUsable } from './useFrameDecoder';
+import type { FlowRequest, FlowResponse } from '../workers/opticalFlow.worker';
+
+// A decoded frame and the key it's cached under (its object URL)
+export interface FlowFrame {
+  key: string;
+  bitmap: ImageBitmap | undefined;
+}
+
+// Flow fields kept - a couple of full loops' worth of frame pairs
+const MAX_FLOWS = 128;
+
+// Motion between two frames, estimated in a worker the first time the pair is
+// needed and remembered after that. Null until the estimate is ready (or when
+// either frame is missing) - callers fall back to a plain crossfade meanwhile.
+export function useMotionFlow(from: FlowFrame | null, to: FlowFrame | null): FlowField | null {
+  const [flows, setFlows] = useState<Map<string, FlowField>>(() => new Map());
+  const workerRef = useRef<Worker | null>(null);
+  const pendingRef = useRef(new Set<string>());
+
+  const key = from && to ? `${from.key}>${to.key}` : null;
+  const fromBitmap = from?.bitmap;
+  const toBitmap = to?.bitmap;
+
+  // One worker, started with the first estimate
+  useEffect(() => {
+    const pending = pendingRef.current;
+    return () => {
+      workerRef.current?.terminate();
+      workerRef.current = null;
+      pending.clear();
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!key || flows.has(key) || pendingRef.current.has(key)) return;
+    if (!isUsable(fromBitmap) || !isUsable(toBitmap)) return;
+
+    if (!workerRef.current) {
+      const worker = new Worker(new URL('../workers/opticalFlow.worker.ts', import.meta.url), { type: 'module' });
+      worker.onmessage = (event: MessageEvent<FlowResponse>) => {
+        const response = event.data;
+        pendingRef.current.delete(response.key);
+        if ('error' in response) {
+          console.warn('Failed to estimate motion:', response.error);
+          return;
+        }
+        setFlows((prev) => {
+          const next = new Map(prev).set(response.key, response.flow);
+          // Oldest pairs go first
+          for (const oldKey of next.keys()) {
+            if (next.size <= MAX_FLOWS) break;
+            next.delete(oldKey);
+          }
+          return next;
+        });
+      };
+      workerRef.current = worker;
+    }
+
+    // Send small copies - the full bitmaps stay on screen here
+    const scale = FLOW_SAMPLE_SIZE / Math.max(fromBitmap.width, fromBitmap.height);
+    const size = {
+      resizeWidth: Math.round(fromBitmap.width * scale),
+      resizeHeight: Math.round(fromBitmap.height * scale),
+      resizeQuality: 'medium' as const,
+    };
+    pendingRef.current.add(key);
+    const samples = [createImageBitmap(fromBitmap, size), createImageBitmap(toBitmap, size)];
+    Promise.all(samples)
+      .then(([fromSample, toSample]) => {
+        // Unmounted while sampling - the worker is gone, so nothing else will close them
+        const worker = workerRef.current;
+        if (!worker) {
+          fromSample.close();
+          toSample.close();
+          return;
+        }
+        const request: FlowRequest = { key, from: fromSample, to: toSample };
+        worker.postMessage(request, [fromSample, toSample]);
+      })
+      .catch((error) => {
+        pendingRef.current.delete(key);
+        // Close whichever sample was made
+        for (const sample of samples) sample.then((bitmap) => bitmap.close(), () => undefined);
+        console.warn('Failed to sample frames for motion:', error);
+      });
+  }, [key, flows, fromBitmap, toBitmap]);
+
+  return key ? flows.get(key) ?? null : null;
+}
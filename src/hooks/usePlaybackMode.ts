@@ -0,0 +1,26 @@
+import { useCallback, useRef, useState } from 'react';
+import { getStartDirection } from '../lib/playback';
+import type { PlaybackDirection, PlaybackMode } from '../lib/playback';
+
+export interface PlaybackModeState {
+  mode: PlaybackMode;
+  dwellMs: number; // Extra hold on the newest frame each time playback reaches it
+  directionRef: React.RefObject<PlaybackDirection>; // Rock mode flips this at either end
+  setMode: (mode: PlaybackMode) => void;
+  setDwell: (ms: number) => void;
+}
+
+// Playback mode and newest-frame dwell, shared by every animated view
+// Picking a mode starts it off in its own direction
+export function usePlaybackMode(): PlaybackModeState {
+  const [mode, setModeState] = useState<PlaybackMode>('loop');
+  const [dwellMs, setDwell] = useState(0);
+  const directionRef = useRef<PlaybackDirection>(1);
+
+  const setMode = useCallback((next: PlaybackMode) => {
+    setModeState(next);
+    directionRef.current = getStartDirection(next);
+  }, []);
+
+  return { mode, dwellMs, directionRef, setMode, setDwell };
+}
@@ -0,0 +1,68 @@
+import { useState, useEffect, useRef } from 'react';
+import { HELP_KEY, SHORTCUT_BINDINGS, matchShortcut } from '../lib/shortcuts';
+import type { ShortcutAction, ShortcutHandlers } from '../lib/shortcuts';
+
+// A line of the help overlay
+export interface ShortcutHelpEntry {
+  label: string;
+  description: string;
+}
+
+export interface ShortcutsState {
+  showHelp: boolean;
+  closeHelp: () => void;
+  shortcuts: ShortcutHelpEntry[]; // Bound shortcuts, for the help overlay
+}
+
+// Listen for the shared keyboard shortcuts while the view is mounted
+// `descriptions` replaces an action's help text where the view means
+// something specific, e.g. number keys switching sectors
+export function useShortcuts(
+  handlers: ShortcutHandlers,
+  descriptions: Partial<Record<ShortcutAction, string>> = {}
+): ShortcutsState {
+  const [showHelp, setShowHelp] = useState(false);
+  const handlersRef = useRef(handlers);
+
+  // Handlers change every render - the listener reads the latest through a ref
+  useEffect(() => {
+    handlersRef.current = handlers;
+  });
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        setShowHelp(false);
+        return;
+      }
+      const match = matchShortcut(event);
+      if (!match) return;
+
+      if (match.action === 'help') {
+        event.preventDefault();
+        setShowHelp((open) => !open);
+        return;
+      }
+
+      const current = handlersRef.current;
+      if (!current[match.action]) return;
+      // Space would otherwise scroll the page, arrows move focus
+      event.preventDefault();
+      if (match.action === 'selectSlot') current.selectSlot!(match.slot ?? 0);
+      else current[match.action]!();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const shortcuts = (Object.keys(SHORTCUT_BINDINGS) as ShortcutAction[])
+    .filter((action) => handlers[action])
+    .map((action) => ({
+      label: SHORTCUT_BINDINGS[action].label,
+      description: descriptions[action] ?? SHORTCUT_BINDINGS[action].description,
+    }));
+  shortcuts.push({ label: HELP_KEY, description: 'Show / hide shortcuts' });
+
+  return { showHelp, closeHelp: () => setShowHelp(false), shortcuts };
+}
@@ -0,0 +1,176 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { IDENTITY_VIEWPORT, clampViewport, zoomAt, panBy, centerOn } from '../lib/viewport';
+import type { Viewport, ViewportSize } from '../lib/viewport';
+
+// Zoom for a double tap / double click on the unzoomed image
+const DOUBLE_TAP_ZOOM = 2.5;
+// Max gap (ms) and distance (px) between the taps of a double tap
+const DOUBLE_TAP_MS = 300;
+const DOUBLE_TAP_SLOP = 30;
+// Pointer travel (px) before a press on the zoomed image starts panning
+const PAN_SLOP = 4;
+// Wheel zoom per pixel of scroll
+const WHEEL_ZOOM_RATE = 0.002;
+
+export interface ViewportControls {
+  reset: () => void;
+  centerOn: (x: number, y: number) => void; // Unzoomed container px
+  handlers: {
+    onPointerDown: (e: React.PointerEvent<HTMLElement>) => void;
+    onPointerMove: (e: React.PointerEvent<HTMLElement>) => void;
+    onPointerUp: (e: React.PointerEvent<HTMLElement>) => void;
+    onPointerCancel: (e: React.PointerEvent<HTMLElement>) => void;
+    onDoubleClick: (e: React.MouseEvent<HTMLElement>) => void;
+  };
+}
+
+interface PointerTrack {
+  x: number; // Container px
+  y: number;
+}
+
+// Buttons and insets over the image keep their own clicks and drags
+function isControl(target: EventTarget | null): boolean {
+  return target instanceof Element && target.closest('button, .zoom-minimap') !== null;
+}
+
+function toContainer(container: HTMLElement, clientX: number, clientY: number): PointerTrack {
+  const bounds = container.getBoundingClientRect();
+  return { x: clientX - bounds.left, y: clientY - bounds.top };
+}
+
+// Zoom and pan of the container's content: wheel zooms at the pointer, a drag
+// pans once zoomed, two fingers pinch, and a double tap / double click zooms
+// in or back out. The view resets whenever `resetKey` changes (e.g. another
+// sector, whose image doesn't line up with this one) but survives frame changes.
+export function useViewport(
+  containerRef: React.RefObject<HTMLElement | null>,
+  size: ViewportSize,
+  resetKey: string
+): [Viewport, ViewportControls] {
+  // Stored with the key it belongs to - a stale key reads as unzoomed
+  const [stored, setStored] = useState({ key: resetKey, viewport: IDENTITY_VIEWPORT });
+  const pointersRef = useRef(new Map<number, PointerTrack>());
+  const panningRef = useRef(false);
+  const pressStartRef = useRef<PointerTrack | null>(null);
+  const lastTapRef = useRef<{ time: number; x: number; y: number } | null>(null);
+  const pointerTypeRef = useRef('mouse');
+
+  const viewport = stored.key === resetKey ? clampViewport(stored.viewport, size) : IDENTITY_VIEWPORT;
+
+  const update = useCallback((change: (current: Viewport) => Viewport) => {
+    setStored((prev) => ({
+      key: resetKey,
+      viewport: change(prev.key === resetKey ? clampViewport(prev.viewport, size) : IDENTITY_VIEWPORT),
+    }));
+  }, [resetKey, size]);
+
+  const toggleZoomAt = useCallback((x: number, y: number) => {
+    update((current) => current.scale > 1 ? IDENTITY_VIEWPORT : zoomAt(current, DOUBLE_TAP_ZOOM, x, y, size));
+  }, [update, size]);
+
+  // Wheel needs a non-passive listener to keep the page from scrolling
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const handleWheel = (event: WheelEvent) => {
+      if (isControl(event.target)) return;
+      event.preventDefault();
+      // Line-based wheels report a few units per notch
+      const delta = event.deltaMode === WheelEvent.DOM_DELTA_LINE ? event.deltaY * 16 : event.deltaY;
+      const { x, y } = toContainer(container, event.clientX, event.clientY);
+      update((current) => zoomAt(current, Math.exp(-delta * WHEEL_ZOOM_RATE), x, y, size));
+    };
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    return () => container.removeEventListener('wheel', handleWheel);
+  }, [containerRef, update, size]);
+
+  const onPointerDown = (e: React.PointerEvent<HTMLElement>) => {
+    pointerTypeRef.current = e.pointerType;
+    if (isControl(e.target) || (e.pointerType === 'mouse' && e.button !== 0)) return;
+    const point = toContainer(e.currentTarget, e.clientX, e.clientY);
+    pointersRef.current.set(e.pointerId, point);
+    pressStartRef.current = pointersRef.current.size === 1 ? point : null;
+    panningRef.current = false;
+  };
+
+  const onPointerMove = (e: React.PointerEvent<HTMLElement>) => {
+    const pointers = pointersRef.current;
+    const previous = pointers.get(e.pointerId);
+    if (!previous) return;
+    const point = toContainer(e.currentTarget, e.clientX, e.clientY);
+
+    if (pointers.size >= 2) {
+      // Pinch: scale by the change in finger spread about their midpoint,
+      // and follow the midpoint as it moves
+      const [a, b] = [...pointers.values()];
+      const other = a === previous ? b : a;
+      const spreadBefore = Math.hypot(previous.x - other.x, previous.y - other.y);
+      const spreadAfter = Math.hypot(point.x - other.x, point.y - other.y);
+      const midBefore = { x: (previous.x + other.x) / 2, y: (previous.y + other.y) / 2 };
+      const midAfter = { x: (point.x + other.x) / 2, y: (point.y + other.y) / 2 };
+      if (spreadBefore > 0) {
+        update((current) => panBy(
+          zoomAt(current, spreadAfter / spreadBefore, midBefore.x, midBefore.y, size),
+          midAfter.x - midBefore.x,
+          midAfter.y - midBefore.y,
+          size
+        ));
+      }
+      pressStartRef.current = null;
+      panningRef.current = true;
+    } else if (viewport.scale > 1) {
+      // Drag pans once past the slop, so taps on the overlay still land
+      const start = pressStartRef.current;
+      if (!panningRef.current && start && Math.hypot(point.x - start.x, point.y - start.y) > PAN_SLOP) {
+        panningRef.current = true;
+        e.currentTarget.setPointerCapture(e.pointerId);
+      }
+      if (panningRef.current) update((current) => panBy(current, point.x - previous.x, point.y - previous.y, size));
+    }
+    pointers.set(e.pointerId, point);
+  };
+
+  const onPointerUp = (e: React.PointerEvent<HTMLElement>) => {
+    const pointers = pointersRef.current;
+    if (!pointers.delete(e.pointerId)) return;
+    const start = pressStartRef.current;
+    if (pointers.size > 0 || !start) return;
+    pressStartRef.current = null;
+
+    // Mouse double clicks arrive as dblclick - only touch and pen taps here
+    if (e.pointerType === 'mouse' || panningRef.current) return;
+    // A swipe isn't a tap
+    const end = toContainer(e.currentTarget, e.clientX, e.clientY);
+    if (Math.hypot(end.x - start.x, end.y - start.y) > DOUBLE_TAP_SLOP) {
+      lastTapRef.current = null;
+      return;
+    }
+    const now = performance.now();
+    const lastTap = lastTapRef.current;
+    if (lastTap && now - lastTap.time < DOUBLE_TAP_MS && Math.hypot(start.x - lastTap.x, start.y - lastTap.y) < DOUBLE_TAP_SLOP) {
+      lastTapRef.current = null;
+      toggleZoomAt(start.x, start.y);
+    } else {
+      lastTapRef.current = { time: now, x: start.x, y: start.y };
+    }
+  };
+
+  const onPointerCancel = (e: React.PointerEvent<HTMLElement>) => {
+    pointersRef.current.delete(e.pointerId);
+    pressStartRef.current = null;
+  };
+
+  const onDoubleClick = (e: React.MouseEvent<HTMLElement>) => {
+    // Some mobile browsers also send dblclick for a double tap, handled above
+    if (pointerTypeRef.current !== 'mouse' || isControl(e.target)) return;
+    const { x, y } = toContainer(e.currentTarget, e.clientX, e.clientY);
+    toggleZoomAt(x, y);
+  };
+
+  return [viewport, {
+    reset: () => update(() => IDENTITY_VIEWPORT),
+    centerOn: (x: number, y: number) => update((current) => centerOn(current, x, y, size)),
+    handlers: { onPointerDown, onPointerMove, onPointerUp, onPointerCancel, onDoubleClick },
+  }];
+}
@@ -1,19 +1,76 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
-import { fetchAndCacheImage, clearOldCache, getCacheStats } from '../lib/imageCache';
-import { fetchAvailableImages } from '../lib/goesApi';
-import type { Sector, ImageType } from '../lib/goesApi';
+import { useState, useEffect, useCallback, useRef, useMemo, useSyncExternalStore } from 'react';
+import { fetchAndCacheImage, clearOldCache, evictToBudget, getCacheStats, getCachedFrames, getLastFetch, recordFetch, requestPersistentStorage } from '../lib/imageCache';
+import type { LoopBundle } from '../lib/imageCache';
+import { announceLoop, electLeader, getLoopKey, requestLoop, subscribeLoopRequests, subscribeLoops, waitForLoop } from '../lib/tabCoordinator';
+import { getFrameHandleStats, releaseFrameUrl, subscribeFrameHandles } from '../lib/frameHandles';
+import type { FrameHandleStats } from '../lib/frameHandles';
+import { SECTORS, MESO_LOCATION_TTL_MS, decimateFrames, fetchAvailableImages, fetchImagesInRange, fetchMesoLocation, getFrameGaps, isAbortError, isMesoSector, isProductAvailable, planLoopUpdate } from '../lib/goesApi';
+import type { Sector, ImageType, GoesFrame, ImageListing, MesoLocation, ResolutionPolicy, Satellite, TimeRange } from '../lib/goesApi';
+import { getDwellTime, getPlayStartFrame, stepFrame } from '../lib/playback';
+import type { PlaybackMode } from '../lib/playback';
+import type { InterpolationSettings } from '../lib/frameInterpolation';
+import { usePlaybackMode } from './usePlaybackMode';
+
+// A frame that has been loaded into the cache and is ready to display
+export interface LoopFrame extends GoesFrame {
+  objectUrl: string;
+}
+
+// Which scans the loop covers
+export type LoopWindow =
+  | { mode: 'latest' }                          // Most recent frames (default)
+  | { mode: 'lastHours'; hours: number }        // Rolling window ending now
+  | { mode: 'range'; start: Date; end: Date }   // Fixed window for post-event review
+  | { mode: 'bundle'; name: string; frames: GoesFrame[] }; // Frames opened from a saved loop bundle
+
+// The leader tab fetches a loop from NOAA; followers replay it from the shared cache
+export type TabRole = 'leader' | 'follower';
+
+// 'uniform' shows every frame for the same time; 'realtime' holds frames
+// across scan gaps so the animation runs proportional to real time
+export type PlaybackTiming = 'uniform' | 'realtime';
+
+// The frame playback will move to next, and when - interpolation blends
+// toward it between `startedAt + delayMs` and `startedAt + delayMs + durationMs`
+// (requestAnimationFrame timestamps). Only set between adjacent frames.
+export interface FrameTransition {
+  from: number;
+  to: number;
+  startedAt: number;
+  delayMs: number; // Dwell on the newest frame before moving
+  durationMs: number;
+}
 
 export interface LoopState {
-  frames: string[];
+  frames: LoopFrame[];
   currentFrame: number;
   isPlaying: boolean;
   isLoading: boolean;
+  isRefreshing: boolean; // Extending the loop with new scans while it keeps playing
+  isLive: boolean; // Polling for new scans at the sector cadence
   loadingProgress: number;
   error: string | null;
   sector: Sector;
   imageType: ImageType;
+  satellite: Satellite; // Satellite that actually served the loop (may be a failover)
   speed: number; // ms between frames
+  playbackTiming: PlaybackTiming;
+  playbackMode: PlaybackMode;
+  dwellMs: number; // Extra hold on the newest frame each time playback reaches it
+  interpolation: InterpolationSettings;
+  transition: FrameTransition | null; // Set while playing with interpolation on
+  frameGaps: number[]; // Scans missing immediately before each frame
   cacheStats: { count: number; sizeMB: number };
+  frameHandles: FrameHandleStats; // Object URLs alive in memory across the app
+  mesoLocation: MesoLocation | null; // Current center of a mesoscale sector
+  resolution: string | null; // Resolution the frames were loaded at, e.g. "1200x1200"
+  resolutions: string[]; // All resolutions available for this sector/product
+  resolutionPolicy: ResolutionPolicy;
+  loopWindow: LoopWindow;
+  missingScans: Date[]; // Expected scans absent from the window
+  windowFrameCount: number; // Frames in the window before decimation
+  offlineAsOf: Date | null; // Set while playing a cached loop - newest scan time it holds
+  tabRole: TabRole; // Whether this tab fetches the loop or follows another tab
 }
 
 export interface LoopControls {
@@ -24,83 +81,466 @@ export interface LoopControls {
   prevFrame: () => void;
   goToFrame: (index: number) => void;
   setSpeed: (ms: number) => void;
+  setPlaybackTiming: (timing: PlaybackTiming) => void;
+  setPlaybackMode: (mode: PlaybackMode) => void;
+  setDwell: (ms: number) => void;
+  setInterpolation: (settings: InterpolationSettings) => void;
   setSector: (sector: Sector) => void;
   setImageType: (type: ImageType) => void;
+  setResolutionPolicy: (policy: ResolutionPolicy) => void;
+  setLoopWindow: (window: LoopWindow) => void;
+  openBundle: (bundle: LoopBundle, name: string) => void;
+  setLive: (live: boolean) => void;
   refresh: () => void;
 }
 
 const DEFAULT_FRAME_COUNT = 24; // ~2 hours at 5-min intervals
+const MESO_FRAME_COUNT = 60; // ~1 hour at 1-min intervals
+// How long a follower tab waits for the leader to fetch before going to NOAA itself
+const FOLLOWER_WAIT_MS = 10 * 1000;
+const MAX_WINDOW_FRAMES = 96; // Long windows are decimated to this many frames
 const DEFAULT_SPEED = 150; // ms between frames
+const LOAD_CONCURRENCY = 4; // Image requests in flight at once
+const OFFLINE_RETRY_MS = 60 * 1000; // How often to probe for the network while offline
+const LIVE_MAX_BACKOFF_MS = 30 * 60 * 1000; // Longest wait between live polls after failures
+
+// Until the UI measures its image container, size frames to the viewport
+function getViewportPolicy(): ResolutionPolicy {
+  return {
+    mode: 'fit',
+    width: window.innerWidth,
+    height: window.innerHeight,
+    devicePixelRatio: window.devicePixelRatio || 1,
+  };
+}
+
+// Resolve a loop window to absolute times (null for the latest-frames window)
+function getWindowRange(loopWindow: LoopWindow): TimeRange | null {
+  switch (loopWindow.mode) {
+    case 'lastHours': {
+      const end = new Date();
+      return { start: new Date(end.getTime() - loopWindow.hours * 60 * 60 * 1000), end };
+    }
+    case 'range':
+      return { start: loopWindow.start, end: loopWindow.end };
+    default:
+      return null;
+  }
+}
+
+// Run an async task over every item with at most `limit` running at once
+// The first rejection is passed on, leaving the rest to wind down
+async function runWithConcurrency<T>(
+  items: T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<void>
+): Promise<void> {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      await task(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+}
+
+// Release every frame handle in the list and empty it
+function releaseHeldFrames(urls: string[]) {
+  urls.forEach(releaseFrameUrl);
+  urls.length = 0;
+}
+
+// Release the handles of frames leaving the loop
+function releaseLoopFrames(held: string[], leaving: GoesFrame[]) {
+  for (const frame of leaving) {
+    const index = held.indexOf(frame.url);
+    if (index !== -1) held.splice(index, 1);
+    releaseFrameUrl(frame.url);
+  }
+}
+
+// Rebuild the most recent loop for a sector/product from cached frames
+// Sticks to one resolution - whichever the newest frame was cached at
+async function getOfflineFrames(
+  sector: Sector,
+  imageType: ImageType,
+  range: TimeRange | null
+): Promise<GoesFrame[]> {
+  const cached = (await getCachedFrames(sector, imageType, range ?? undefined))
+    .filter((frame) => frame.resolution !== 'latest');
+  if (cached.length === 0) return [];
+
+  const { resolution } = cached[cached.length - 1];
+  const frames = cached.filter((frame) => frame.resolution === resolution);
+  return range ? decimateFrames(frames, MAX_WINDOW_FRAMES) : frames.slice(-getFrameCount(sector));
+}
+
+// Mesoscale sectors scan every minute - 24 frames would only cover 24 minutes
+function getFrameCount(sector: Sector): number {
+  return SECTORS[sector].cadenceMinutes <= 1 ? MESO_FRAME_COUNT : DEFAULT_FRAME_COUNT;
+}
 
 export function useWeatherLoop(
   initialSector: Sector = 'northeast',
   initialImageType: ImageType = 'GEOCOLOR'
 ): [LoopState, LoopControls] {
-  const [frames, setFrames] = useState<string[]>([]);
+  const [frames, setFrames] = useState<LoopFrame[]>([]);
   const [currentFrame, setCurrentFrame] = useState(0);
   const [isPlaying, setIsPlaying] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [isLive, setIsLive] = useState(false);
   const [loadingProgress, setLoadingProgress] = useState(0);
   const [error, setError] = useState<string | null>(null);
   const [sector, setSectorState] = useState<Sector>(initialSector);
   const [imageType, setImageTypeState] = useState<ImageType>(initialImageType);
+  const [satellite, setSatellite] = useState<Satellite>(SECTORS[initialSector].satellite);
   const [speed, setSpeedState] = useState(DEFAULT_SPEED);
+  const [playbackTiming, setPlaybackTiming] = useState<PlaybackTiming>('uniform');
+  const { mode: playbackMode, dwellMs, directionRef, setMode: setPlaybackMode, setDwell } = usePlaybackMode();
+  const [interpolation, setInterpolation] = useState<InterpolationSettings>({ mode: 'off', factor: 4 });
+  const [transition, setTransition] = useState<FrameTransition | null>(null);
   const [cacheStats, setCacheStats] = useState({ count: 0, sizeMB: 0 });
+  // Kept with the sector it belongs to - another sector's center reads as unknown
+  const [mesoFix, setMesoFix] = useState<{ sector: Sector; location: MesoLocation | null } | null>(null);
+  const mesoLocation = mesoFix?.sector === sector ? mesoFix.location : null;
+  const [resolution, setResolution] = useState<string | null>(null);
+  const [resolutions, setResolutions] = useState<string[]>([]);
+  const [resolutionPolicy, setResolutionPolicy] = useState<ResolutionPolicy>(getViewportPolicy);
+  const [loopWindow, setLoopWindow] = useState<LoopWindow>({ mode: 'latest' });
+  const [missingScans, setMissingScans] = useState<Date[]>([]);
+  const [windowFrameCount, setWindowFrameCount] = useState(0);
+  const [offlineAsOf, setOfflineAsOf] = useState<Date | null>(null);
+  const [tabRole, setTabRole] = useState<TabRole>('follower');
 
   const animationRef = useRef<number | null>(null);
   const lastFrameTimeRef = useRef<number>(0);
+  const currentFrameRef = useRef(0);
+  const framesRef = useRef<LoopFrame[]>([]);
+  const loadGenerationRef = useRef(0);
+  const loadAbortRef = useRef<AbortController | null>(null);
+  const loadInFlightRef = useRef(false); // A runLoad is underway - frames may be half loaded
+  const heldUrlsRef = useRef<string[]>([]); // Frame handles the current loop holds
+  const isLeaderRef = useRef(false);
+  const leadershipRef = useRef<Promise<boolean>>(Promise.resolve(false)); // First election result for the loop
+
+  const frameHandles = useSyncExternalStore(subscribeFrameHandles, getFrameHandleStats);
+
+  // Compare actual scan times against the sector cadence
+  const frameGaps = useMemo(
+    () => getFrameGaps(frames, SECTORS[sector].cadenceMinutes),
+    [frames, sector]
+  );
 
   // Load frames for the current sector - progressively shows frames as they load
-  const loadFrames = useCallback(async () => {
+  // Each load gets a generation number; starting a new one aborts the previous
+  // load's requests and any late results from it are dropped.
+  // `adopted` frames (announced by the leader tab) skip the network entirely.
+  const runLoad = useCallback(async (adopted: GoesFrame[] | null) => {
+    loadAbortRef.current?.abort();
+    const controller = new AbortController();
+    loadAbortRef.current = controller;
+    const generation = ++loadGenerationRef.current;
+    const isCurrent = () => generation === loadGenerationRef.current && !controller.signal.aborted;
+
+    loadInFlightRef.current = true;
     setIsLoading(true);
+    setIsRefreshing(false);
     setError(null);
     setLoadingProgress(0);
     setFrames([]); // Clear existing frames
     setCurrentFrame(0);
+    releaseHeldFrames(heldUrlsRef.current);
+
+    // Load images into cache a few at a time - frames are slotted by index
+    // so the loop stays in scan order whichever request finishes first
+    const loadImages = async (goesFrames: GoesFrame[]): Promise<number> => {
+      const loaded: (LoopFrame | undefined)[] = new Array(goesFrames.length);
+      let completed = 0;
+      setLoadingProgress(0);
+
+      await runWithConcurrency(goesFrames, LOAD_CONCURRENCY, async (frame, i) => {
+        try {
+          const objectUrl = await fetchAndCacheImage(frame, controller.signal);
+          if (!isCurrent()) {
+            releaseFrameUrl(frame.url);
+            return;
+          }
+          heldUrlsRef.current.push(frame.url);
+          loaded[i] = { ...frame, objectUrl };
+          // Update frames progressively so user sees content while loading
+          setFrames(loaded.filter((f): f is LoopFrame => f !== undefined));
+        } catch (err) {
+          if (isAbortError(err)) throw err;
+          console.warn(`Failed to load frame ${i + 1}:`, err);
+        }
+        completed++;
+        if (isCurrent()) setLoadingProgress((completed / goesFrames.length) * 100);
+      });
+      return loaded.filter(Boolean).length;
+    };
+
+    const applyListing = (listing: ImageListing) => {
+      setSatellite(listing.satellite);
+      setResolution(listing.resolution);
+      setResolutions(listing.resolutions);
+    };
+
+    // Cached and bundled frames come without a listing - describe the loop from the frames
+    const applyStoredFrames = (storedFrames: GoesFrame[]) => {
+      const newest = storedFrames[storedFrames.length - 1];
+      setSatellite(newest.satellite);
+      setResolution(newest.resolution);
+      setResolutions([newest.resolution]);
+      setMissingScans([]);
+      setWindowFrameCount(storedFrames.length);
+    };
 
     try {
-      // Clear old cache entries
-      await clearOldCache();
+      // Saved bundles and frames announced by another tab play straight from the cache
+      const storedFrames = adopted ?? (loopWindow.mode === 'bundle' ? loopWindow.frames : null);
+      if (storedFrames) {
+        setOfflineAsOf(null);
+        if (storedFrames.length > 0) applyStoredFrames(storedFrames);
+        const loadedCount = await loadImages(storedFrames);
+        if (!isCurrent()) return;
+        if (loadedCount === 0) throw new Error('No frames could be loaded');
+        const stats = await getCacheStats();
+        if (isCurrent()) setCacheStats(stats);
+        return;
+      }
 
-      // Fetch available image URLs from the directory (auto-discovers resolution)
-      const imageUrls = await fetchAvailableImages(
-        sector,
-        imageType,
-        DEFAULT_FRAME_COUNT
-      );
+      // Another tab leads this loop - if it fetched within the last scan
+      // interval, its frames are already cached and NOAA needn't be asked again.
+      // Otherwise ask it to fetch, and only go to NOAA if it doesn't answer.
+      const range = getWindowRange(loopWindow);
+      const leader = await leadershipRef.current;
+      if (!isCurrent()) return;
+      if (!leader && !range) {
+        const cadenceMs = SECTORS[sector].cadenceMinutes * 60 * 1000;
+        let lastFetch = await getLastFetch(sector, imageType);
+        if (!isCurrent()) return;
+        if (!lastFetch || Date.now() - lastFetch.lastFetch >= cadenceMs) {
+          const key = getLoopKey(sector, imageType);
+          const answered = waitForLoop(key, FOLLOWER_WAIT_MS, controller.signal);
+          requestLoop(key);
+          if (await answered) lastFetch = await getLastFetch(sector, imageType);
+          if (!isCurrent()) return;
+        }
+        if (lastFetch && Date.now() - lastFetch.lastFetch < cadenceMs) {
+          const cachedFrames = await getOfflineFrames(sector, imageType, null);
+          if (!isCurrent()) return;
+          if (cachedFrames.length > 0) {
+            setOfflineAsOf(null);
+            applyStoredFrames(cachedFrames);
+            const loadedCount = await loadImages(cachedFrames);
+            if (!isCurrent()) return;
+            if (loadedCount > 0) {
+              const stats = await getCacheStats();
+              if (isCurrent()) setCacheStats(stats);
+              return;
+            }
+          }
+        }
+      }
 
-      if (imageUrls.length === 0) {
-        throw new Error('No images available');
+      // Fetch available frames from the directory (resolution picked by policy)
+      // Skipped when the browser already knows it's offline
+      let listing: ImageListing | null = null;
+      if (navigator.onLine) {
+        if (range) {
+          const rangeListing = await fetchImagesInRange(
+            sector,
+            imageType,
+            range,
+            MAX_WINDOW_FRAMES,
+            resolutionPolicy,
+            controller.signal
+          );
+          if (!isCurrent()) return;
+          setMissingScans(rangeListing.missing);
+          setWindowFrameCount(rangeListing.totalFrames);
+          listing = rangeListing;
+        } else {
+          listing = await fetchAvailableImages(
+            sector,
+            imageType,
+            getFrameCount(sector),
+            resolutionPolicy,
+            controller.signal
+          );
+          if (!isCurrent()) return;
+          setMissingScans([]);
+          setWindowFrameCount(listing.frames.length);
+        }
       }
 
-      // Load each image into cache - progressively update frames as they load
-      const loadedFrames: string[] = [];
+      // A 'latest' listing means the directory couldn't be read - a cached
+      // loop beats the single undated image
+      const listed = listing !== null && listing.frames.length > 0 && listing.resolution !== 'latest';
+      let loadedCount = 0;
+      if (listing && listed) {
+        applyListing(listing);
+        await recordFetch(sector, imageType, listing);
+        loadedCount = await loadImages(listing.frames);
+        if (!isCurrent()) return;
+      }
 
-      for (let i = 0; i < imageUrls.length; i++) {
-        const url = imageUrls[i];
-        try {
-          const objectUrl = await fetchAndCacheImage(url, sector);
-          loadedFrames.push(objectUrl);
-          // Update frames progressively so user sees content while loading
-          setFrames([...loadedFrames]);
-          setLoadingProgress(((i + 1) / imageUrls.length) * 100);
-        } catch (err) {
-          console.warn(`Failed to load frame ${i + 1}:`, err);
+      if (loadedCount > 0) {
+        setOfflineAsOf(null);
+        // Let tabs following this loop pick up the new frames
+        if (listing && !range) announceLoop(getLoopKey(sector, imageType), listing.frames);
+        // Old entries only go once fresh frames are in hand
+        await clearOldCache();
+        // Trim the cache back under budget - this loop's frames were touched last so they stay
+        await evictToBudget();
+      } else {
+        // Network unavailable - rebuild the loop from whatever is cached
+        const cachedFrames = await getOfflineFrames(sector, imageType, range);
+        if (!isCurrent()) return;
+        if (cachedFrames.length > 0) {
+          applyStoredFrames(cachedFrames);
+          loadedCount = await loadImages(cachedFrames);
+          if (!isCurrent()) return;
+          if (loadedCount > 0) setOfflineAsOf(cachedFrames[cachedFrames.length - 1].scanTime);
         }
       }
 
-      if (loadedFrames.length === 0) {
-        throw new Error('No frames could be loaded');
+      // Last resort: the latest.jpg fallback
+      if (loadedCount === 0 && listing && !listed && listing.frames.length > 0) {
+        applyListing(listing);
+        loadedCount = await loadImages(listing.frames);
+        if (!isCurrent()) return;
+      }
+
+      if (loadedCount === 0) {
+        throw new Error(listing?.frames.length ? 'No frames could be loaded' : 'No images available');
       }
 
       // Update cache stats
       const stats = await getCacheStats();
-      setCacheStats(stats);
+      if (isCurrent()) setCacheStats(stats);
     } catch (err) {
+      // Superseded or cancelled loads fail quietly
+      if (!isCurrent() || isAbortError(err)) return;
       setError(err instanceof Error ? err.message : 'Failed to load images');
     } finally {
-      setIsLoading(false);
+      if (isCurrent()) {
+        loadInFlightRef.current = false;
+        setIsLoading(false);
+      }
+    }
+  }, [sector, imageType, resolutionPolicy, loopWindow]);
+
+  const loadFrames = useCallback(() => runLoad(null), [runLoad]);
+
+  // Bring the live loop up to date without restarting it: diff the listing
+  // against the loop, fetch only the new scans, append them and drop the
+  // oldest. Playback and the frame on screen carry on undisturbed.
+  // Falls back to a full load when the loop can't simply be extended.
+  // Resolves false when the directory couldn't be read, so polling can back off.
+  // Skipped while a load is underway - that load brings the loop up to date.
+  const refreshLoop = useCallback(async (announced: GoesFrame[] | null = null): Promise<boolean> => {
+    if (loadInFlightRef.current) return true;
+    const current = framesRef.current;
+    if (loopWindow.mode !== 'latest' || current.length === 0 || offlineAsOf) {
+      await runLoad(announced);
+      return true;
+    }
+
+    loadAbortRef.current?.abort();
+    const controller = new AbortController();
+    loadAbortRef.current = controller;
+    const generation = ++loadGenerationRef.current;
+    const isCurrent = () => generation === loadGenerationRef.current && !controller.signal.aborted;
+    const newest = current[current.length - 1];
+
+    setIsRefreshing(true);
+    try {
+      let listing: ImageListing | null = null;
+      let listed = announced;
+      if (!listed) {
+        listing = await fetchAvailableImages(
+          sector,
+          imageType,
+          getFrameCount(sector),
+          resolutionPolicy,
+          controller.signal
+        );
+        if (!isCurrent()) return true;
+        listed = listing.frames;
+      }
+      if (listed.length === 0) return true;
+
+      const update = planLoopUpdate(newest, listed);
+      // Directory unreadable - keep playing what we have
+      if (update.kind === 'unavailable') return false;
+      // Different resolution or a failover to another satellite - start over
+      if (update.kind === 'reload') {
+        await runLoad(announced);
+        return true;
+      }
+
+      const fresh = update.frames;
+      const added: (LoopFrame | undefined)[] = new Array(fresh.length);
+      await runWithConcurrency(fresh, LOAD_CONCURRENCY, async (frame, i) => {
+        try {
+          const objectUrl = await fetchAndCacheImage(frame, controller.signal);
+          if (!isCurrent()) {
+            releaseFrameUrl(frame.url);
+            return;
+          }
+          heldUrlsRef.current.push(frame.url);
+          added[i] = { ...frame, objectUrl };
+        } catch (err) {
+          if (isAbortError(err)) throw err;
+          console.warn('Failed to load new frame:', err);
+        }
+      });
+      if (!isCurrent()) return true;
+
+      if (listing) {
+        await recordFetch(sector, imageType, listing);
+        announceLoop(getLoopKey(sector, imageType), listing.frames);
+      }
+
+      const newFrames = added.filter((f): f is LoopFrame => f !== undefined);
+      if (newFrames.length > 0) {
+        const merged = [...current, ...newFrames];
+        const dropCount = Math.max(0, merged.length - getFrameCount(sector));
+        releaseLoopFrames(heldUrlsRef.current, merged.slice(0, dropCount));
+        setFrames(merged.slice(dropCount));
+        setWindowFrameCount(merged.length - dropCount);
+        // Stay on the same scan as the older frames shift down
+        setCurrentFrame((prev) => Math.max(0, prev - dropCount));
+      }
+
+      const stats = await getCacheStats();
+      if (isCurrent()) setCacheStats(stats);
+      return true;
+    } catch (err) {
+      // A failed refresh leaves the current loop playing
+      if (!isCurrent() || isAbortError(err)) return true;
+      console.error('Error refreshing loop:', err);
+      return false;
+    } finally {
+      if (isCurrent()) setIsRefreshing(false);
     }
+  }, [sector, imageType, resolutionPolicy, loopWindow, offlineAsOf, runLoad]);
+
+  // One tab leads each sector/product and fetches from NOAA; the rest follow.
+  // Runs before the initial load, which waits for the first result.
+  useEffect(() => {
+    let decide: (leader: boolean) => void = () => {};
+    leadershipRef.current = new Promise((resolve) => {
+      decide = resolve;
+    });
+    return electLeader(getLoopKey(sector, imageType), (leader) => {
+      isLeaderRef.current = leader;
+      setTabRole(leader ? 'leader' : 'follower');
+      decide(leader);
+    });
   }, [sector, imageType]);
 
   // Initial load
@@ -108,6 +548,141 @@ export function useWeatherLoop(
     loadFrames();
   }, [loadFrames]);
 
+  // Followers replay the leader's frames for the live loop from the shared
+  // cache; the leader fetches when a follower asks
+  useEffect(() => {
+    if (loopWindow.mode !== 'latest') return;
+    const key = getLoopKey(sector, imageType);
+    const stopLoops = subscribeLoops((announcedKey, announcedFrames) => {
+      if (announcedKey === key && !isLeaderRef.current) refreshLoop(announcedFrames);
+    });
+    const stopRequests = subscribeLoopRequests((requestedKey) => {
+      if (requestedKey === key && isLeaderRef.current) refreshLoop();
+    });
+    return () => {
+      stopLoops();
+      stopRequests();
+    };
+  }, [sector, imageType, loopWindow, refreshLoop]);
+
+  // Live mode: poll the directory once per scan interval and append new scans.
+  // Polling pauses while the tab is hidden (catching up when it's shown again)
+  // and backs off exponentially while the directory can't be read. Followers
+  // skip a poll when the leader tab fetched within the interval - its
+  // announcement brings them the new frames.
+  useEffect(() => {
+    if (!isLive || isLoading || loopWindow.mode !== 'latest' || offlineAsOf) return;
+    const cadenceMs = SECTORS[sector].cadenceMinutes * 60 * 1000;
+    let failures = 0;
+    let timer: number | null = null;
+    let polling = false;
+    let cancelled = false;
+
+    const schedule = () => {
+      if (cancelled || document.hidden) return;
+      const delay = Math.min(cadenceMs * 2 ** failures, LIVE_MAX_BACKOFF_MS);
+      timer = window.setTimeout(poll, delay);
+    };
+
+    const poll = async () => {
+      timer = null;
+      polling = true;
+      try {
+        if (!isLeaderRef.current) {
+          const lastFetch = await getLastFetch(sector, imageType);
+          if (lastFetch && Date.now() - lastFetch.lastFetch < cadenceMs) return;
+        }
+        if (cancelled) return;
+        failures = (await refreshLoop()) ? 0 : failures + 1;
+      } finally {
+        polling = false;
+        schedule();
+      }
+    };
+
+    const handleVisibility = () => {
+      if (document.hidden) {
+        if (timer !== null) window.clearTimeout(timer);
+        timer = null;
+      } else if (timer === null && !polling) {
+        poll();
+      }
+    };
+
+    schedule();
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => {
+      cancelled = true;
+      if (timer !== null) window.clearTimeout(timer);
+      document.removeEventListener('visibilitychange', handleVisibility);
+    };
+  }, [isLive, isLoading, loopWindow, offlineAsOf, sector, imageType, refreshLoop]);
+
+  // Keep the cache from being wiped by the browser; on unmount cancel any
+  // in-flight load and let go of the loop's object URLs
+  useEffect(() => {
+    requestPersistentStorage();
+    const held = heldUrlsRef.current;
+    return () => {
+      loadAbortRef.current?.abort();
+      releaseHeldFrames(held);
+    };
+  }, []);
+
+  // While offline, reload as soon as the browser reports the network is back,
+  // and periodically probe the directory in case it was NOAA that was down
+  useEffect(() => {
+    if (!offlineAsOf) return;
+    let cancelled = false;
+
+    const reconnect = () => {
+      if (!cancelled) loadFrames();
+    };
+    const probe = async () => {
+      if (!navigator.onLine) return;
+      const listing = await fetchAvailableImages(sector, imageType, 1, resolutionPolicy);
+      if (listing.resolution !== 'latest') reconnect();
+    };
+
+    window.addEventListener('online', reconnect);
+    const timer = window.setInterval(probe, OFFLINE_RETRY_MS);
+    return () => {
+      cancelled = true;
+      window.removeEventListener('online', reconnect);
+      window.clearInterval(timer);
+    };
+  }, [offlineAsOf, loadFrames, sector, imageType, resolutionPolicy]);
+
+  // Look up where a mesoscale sector is pointed, and again every time the
+  // lookup expires - these move with the weather. A failed lookup keeps the
+  // last known center.
+  useEffect(() => {
+    if (!isMesoSector(sector)) return;
+    let cancelled = false;
+    const locate = () => {
+      fetchMesoLocation(sector).then((location) => {
+        if (cancelled) return;
+        setMesoFix((prev) => (location || prev?.sector !== sector ? { sector, location } : prev));
+      });
+    };
+    locate();
+    const timer = window.setInterval(locate, MESO_LOCATION_TTL_MS);
+    return () => {
+      cancelled = true;
+      window.clearInterval(timer);
+    };
+  }, [sector]);
+
+  // Animation loop reads the frame index through a ref so it isn't restarted every frame
+  useEffect(() => {
+    currentFrameRef.current = currentFrame;
+  }, [currentFrame]);
+
+  // Refresh diffs against the loop as it stands
+  useEffect(() => {
+    framesRef.current = frames;
+  }, [frames]);
+
   // Animation loop
   useEffect(() => {
     if (!isPlaying || frames.length === 0) {
@@ -118,10 +693,41 @@ export function useWeatherLoop(
       return;
     }
 
+    // In real-time mode a frame is held for one step per scan until the next
+    // frame (wrapping around the loop counts as no gap); the newest frame is
+    // also held for the dwell time before moving on
+    const dwellTime = (current: number) => getDwellTime(current, frames.length, dwellMs);
+    const moveTime = (current: number, next: number) => {
+      if (playbackTiming === 'uniform' || Math.abs(next - current) !== 1) return speed;
+      return speed * (1 + (frameGaps[Math.max(current, next)] ?? 0));
+    };
+
     const animate = (timestamp: number) => {
-      if (timestamp - lastFrameTimeRef.current >= speed) {
-        setCurrentFrame((prev) => (prev + 1) % frames.length);
+      const current = Math.min(currentFrameRef.current, frames.length - 1);
+      const step = stepFrame(current, frames.length, playbackMode, directionRef.current);
+      if (timestamp - lastFrameTimeRef.current >= dwellTime(current) + moveTime(current, step.frame)) {
         lastFrameTimeRef.current = timestamp;
+        directionRef.current = step.direction;
+        if (step.done) {
+          setIsPlaying(false);
+          return;
+        }
+        currentFrameRef.current = step.frame;
+        setCurrentFrame(step.frame);
+
+        // Tell the renderer where playback goes next so it can blend toward it
+        if (interpolation.mode !== 'off') {
+          const upcoming = stepFrame(step.frame, frames.length, playbackMode, step.direction);
+          setTransition(!upcoming.done && Math.abs(upcoming.frame - step.frame) === 1
+            ? {
+                from: step.frame,
+                to: upcoming.frame,
+                startedAt: timestamp,
+                delayMs: dwellTime(step.frame),
+                durationMs: moveTime(step.frame, upcoming.frame),
+              }
+            : null);
+        }
       }
       animationRef.current = requestAnimationFrame(animate);
     };
@@ -133,26 +739,66 @@ export function useWeatherLoop(
         cancelAnimationFrame(animationRef.current);
       }
     };
-  }, [isPlaying, frames.length, speed]);
+  }, [isPlaying, frames.length, speed, playbackTiming, playbackMode, dwellMs, interpolation.mode, frameGaps, directionRef]);
 
   // Controls
+  const startPlaying = () => {
+    setCurrentFrame((p) => getPlayStartFrame(p, frames.length, playbackMode));
+    setIsPlaying(true);
+  };
+
   const controls: LoopControls = {
-    play: () => setIsPlaying(true),
+    play: startPlaying,
     pause: () => setIsPlaying(false),
-    toggle: () => setIsPlaying((p) => !p),
+    toggle: () => {
+      if (isPlaying) setIsPlaying(false);
+      else startPlaying();
+    },
     nextFrame: () => setCurrentFrame((p) => (p + 1) % frames.length),
     prevFrame: () => setCurrentFrame((p) => (p - 1 + frames.length) % frames.length),
     goToFrame: (index: number) => setCurrentFrame(Math.max(0, Math.min(index, frames.length - 1))),
     setSpeed: setSpeedState,
+    setPlaybackTiming,
+    setPlaybackMode,
+    setDwell,
+    setInterpolation,
     setSector: (newSector: Sector) => {
       setSectorState(newSector);
+      // Picking a sector or product leaves a saved loop for live data
+      if (loopWindow.mode === 'bundle') setLoopWindow({ mode: 'latest' });
+      // Not every sector carries every product - fall back to GeoColor
+      if (!isProductAvailable(imageType, newSector)) {
+        setImageTypeState('GEOCOLOR');
+      }
       setIsPlaying(false);
     },
     setImageType: (type: ImageType) => {
       setImageTypeState(type);
+      if (loopWindow.mode === 'bundle') setLoopWindow({ mode: 'latest' });
+      setIsPlaying(false);
+    },
+    setResolutionPolicy,
+    setLoopWindow: (newWindow: LoopWindow) => {
+      setLoopWindow(newWindow);
+      // Only the latest-frames window can follow new scans
+      if (newWindow.mode !== 'latest') setIsLive(false);
       setIsPlaying(false);
     },
-    refresh: loadFrames,
+    openBundle: (bundle: LoopBundle, name: string) => {
+      setSectorState(bundle.manifest.sector);
+      setImageTypeState(bundle.manifest.product);
+      setLoopWindow({ mode: 'bundle', name, frames: bundle.frames });
+      setIsLive(false);
+      setIsPlaying(false);
+    },
+    setLive: (live: boolean) => {
+      setIsLive(live);
+      // Live mode keeps the loop running as scans arrive
+      if (live) setIsPlaying(true);
+    },
+    refresh: () => {
+      refreshLoop();
+    },
   };
 
   const state: LoopState = {
@@ -160,12 +806,31 @@ export function useWeatherLoop(
     currentFrame,
     isPlaying,
     isLoading,
+    isRefreshing,
+    isLive,
     loadingProgress,
     error,
     sector,
     imageType,
+    satellite,
     speed,
+    playbackTiming,
+    playbackMode,
+    dwellMs,
+    interpolation,
+    transition,
+    frameGaps,
     cacheStats,
+    frameHandles,
+    mesoLocation,
+    resolution,
+    resolutions,
+    resolutionPolicy,
+    loopWindow,
+    missingScans,
+    windowFrameCount,
+    offlineAsOf,
+    tabRole,
   };
 
   return [state, controls];
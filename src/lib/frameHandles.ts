@@ -0,0 +1,69 @@
+// Reference-counted object URLs for frame images
+// Every holder of a frame's object URL takes a reference and releases it when
+// done; the URL is revoked (freeing its blob) once the last reference goes.
+// Keyed by the image's source URL so loops sharing a frame share one blob.
+
+interface FrameHandle {
+  objectUrl: string;
+  size: number;
+  refs: number;
+}
+
+export interface FrameHandleStats {
+  count: number;
+  sizeMB: number;
+}
+
+const handles = new Map<string, FrameHandle>();
+const listeners = new Set<() => void>();
+let stats: FrameHandleStats = { count: 0, sizeMB: 0 };
+
+function notify() {
+  let bytes = 0;
+  for (const handle of handles.values()) bytes += handle.size;
+  stats = { count: handles.size, sizeMB: Math.round(bytes / 1024 / 1024 * 100) / 100 };
+  listeners.forEach((listener) => listener());
+}
+
+// Take a reference to an existing handle - null when the frame isn't held
+export function retainFrameUrl(url: string): string | null {
+  const handle = handles.get(url);
+  if (!handle) return null;
+  handle.refs++;
+  return handle.objectUrl;
+}
+
+// Take a reference, creating the object URL from the blob if needed
+export function acquireFrameUrl(url: string, blob: Blob): string {
+  const existing = retainFrameUrl(url);
+  if (existing) return existing;
+
+  const objectUrl = URL.createObjectURL(blob);
+  handles.set(url, { objectUrl, size: blob.size, refs: 1 });
+  notify();
+  return objectUrl;
+}
+
+// Drop a reference - the object URL is revoked when none remain
+export function releaseFrameUrl(url: string): void {
+  const handle = handles.get(url);
+  if (!handle) return;
+  handle.refs--;
+  if (handle.refs > 0) return;
+
+  URL.revokeObjectURL(handle.objectUrl);
+  handles.delete(url);
+  notify();
+}
+
+// Live handle count and blob memory (stable object between changes)
+export function getFrameHandleStats(): FrameHandleStats {
+  return stats;
+}
+
+export function subscribeFrameHandles(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,180 @@
+// In-between frames for animations whose scans are minutes apart
+// - 'crossfade' blends the two frames
+// - 'motion' also shifts each block of the image along a block-matching
+//   optical-flow estimate, so moving clouds slide rather than dissolve
+// Reference: block-matching motion estimation as used in video codecs
+// (exhaustive search minimizing the sum of absolute differences)
+
+export type InterpolationMode = 'off' | 'crossfade' | 'motion';
+
+export interface InterpolationSettings {
+  mode: InterpolationMode;
+  factor: number; // Steps drawn per frame interval - factor - 1 are in-between frames
+}
+
+export const INTERPOLATION_MODE_OPTIONS: { value: InterpolationMode; label: string }[] = [
+  { value: 'off', label: 'No blending' },
+  { value: 'crossfade', label: 'Crossfade' },
+  { value: 'motion', label: 'Motion blend' },
+];
+
+export const INTERPOLATION_FACTORS = [2, 4, 8];
+
+// Displacement of each block between two frames
+export interface FlowField {
+  cols: number;
+  rows: number;
+  blockWidth: number;  // Block size as a fraction of the image width
+  blockHeight: number; // ... and of its height
+  dx: Float32Array;    // Per block, as a fraction of the image width
+  dy: Float32Array;    // Per block, as a fraction of the image height
+}
+
+// Flow is estimated on a downscaled grayscale copy - clouds move tens of
+// pixels per scan at full resolution, a few pixels at this size
+export const FLOW_SAMPLE_SIZE = 192;
+const FLOW_BLOCK_SIZE = 8;
+const FLOW_SEARCH_RADIUS = 4;
+// A block only moves if that matches at least this much better than staying
+// put - keeps flat areas (clear sky, ocean) from picking up noise
+const FLOW_MIN_GAIN = 0.2;
+
+// Blend position for a frame interval: progress 0-1 through the interval,
+// quantized to the interpolation factor and never reaching the next frame
+export function getBlendFactor(progress: number, factor: number): number {
+  if (!(progress > 0) || factor < 2) return 0;
+  return Math.min(Math.floor(progress * factor), factor - 1) / factor;
+}
+
+// Luminance of RGBA pixels (ITU-R BT.601 weights)
+export function toLuma(rgba: Uint8ClampedArray): Uint8Array {
+  const luma = new Uint8Array(rgba.length / 4);
+  for (let i = 0; i < luma.length; i++) {
+    luma[i] = (rgba[i * 4] * 77 + rgba[i * 4 + 1] * 150 + rgba[i * 4 + 2] * 29) >> 8;
+  }
+  return luma;
+}
+
+// Sum of absolute differences between a block of `from` and the block of `to`
+// displaced by (ox, oy) - gives up once it exceeds `limit`
+function blockDifference(
+  from: Uint8Array,
+  to: Uint8Array,
+  width: number,
+  x0: number,
+  y0: number,
+  ox: number,
+  oy: number,
+  size: number,
+  limit: number
+): number {
+  let sum = 0;
+  for (let y = 0; y < size; y++) {
+    const rowFrom = (y0 + y) * width + x0;
+    const rowTo = (y0 + y + oy) * width + x0 + ox;
+    for (let x = 0; x < size; x++) {
+      sum += Math.abs(from[rowFrom + x] - to[rowTo + x]);
+    }
+    if (sum > limit) return sum;
+  }
+  return sum;
+}
+
+// Estimate how each block of `from` moved to reach `to` (both grayscale,
+// width x height) by exhaustive search within the radius
+export function estimateBlockFlow(
+  from: Uint8Array,
+  to: Uint8Array,
+  width: number,
+  height: number,
+  blockSize: number = FLOW_BLOCK_SIZE,
+  searchRadius: number = FLOW_SEARCH_RADIUS
+): FlowField {
+  const cols = Math.floor(width / blockSize);
+  const rows = Math.floor(height / blockSize);
+  const dx = new Float32Array(cols * rows);
+  const dy = new Float32Array(cols * rows);
+
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const x0 = col * blockSize;
+      const y0 = row * blockSize;
+      const still = blockDifference(from, to, width, x0, y0, 0, 0, blockSize, Infinity);
+      let best = still;
+      let bestX = 0;
+      let bestY = 0;
+
+      for (let oy = -searchRadius; oy <= searchRadius; oy++) {
+        if (y0 + oy < 0 || y0 + oy + blockSize > height) continue;
+        for (let ox = -searchRadius; ox <= searchRadius; ox++) {
+          if ((ox === 0 && oy === 0) || x0 + ox < 0 || x0 + ox + blockSize > width) continue;
+          const difference = blockDifference(from, to, width, x0, y0, ox, oy, blockSize, best);
+          // Prefer the shortest move among equal matches
+          if (difference < best || (difference === best && ox * ox + oy * oy < bestX * bestX + bestY * bestY)) {
+            best = difference;
+            bestX = ox;
+            bestY = oy;
+          }
+        }
+      }
+
+      if (best <= still * (1 - FLOW_MIN_GAIN)) {
+        dx[row * cols + col] = bestX / width;
+        dy[row * cols + col] = bestY / height;
+      }
+    }
+  }
+
+  return { cols, rows, blockWidth: blockSize / width, blockHeight: blockSize / height, dx, dy };
+}
+
+// Draw the frame `t` of the way from `from` to `to` onto the whole canvas
+// With a flow field, moving blocks are drawn along their path over a plain
+// crossfade, which fills any gaps the shifted blocks leave
+export function drawInterpolatedFrame(
+  ctx: CanvasRenderingContext2D,
+  from: ImageBitmap,
+  to: ImageBitmap,
+  t: number,
+  flow: FlowField | null
+): void {
+  const { width, height } = ctx.canvas;
+  ctx.globalAlpha = 1;
+  ctx.drawImage(from, 0, 0, width, height);
+  ctx.globalAlpha = t;
+  ctx.drawImage(to, 0, 0, width, height);
+
+  if (flow) {
+    const blockWidth = flow.blockWidth * width;
+    const blockHeight = flow.blockHeight * height;
+    const scaleFrom = from.width / width;
+    const scaleTo = to.width / width;
+
+    for (let row = 0; row < flow.rows; row++) {
+      for (let col = 0; col < flow.cols; col++) {
+        const moveX = flow.dx[row * flow.cols + col] * width;
+        const moveY = flow.dy[row * flow.cols + col] * height;
+        if (moveX === 0 && moveY === 0) continue;
+
+        // The block's content sits t along its path: it came from
+        // t * move behind in the first frame and lands (1 - t) * move ahead
+        const x = col * blockWidth + t * moveX;
+        const y = row * blockHeight + t * moveY;
+        ctx.globalAlpha = 1;
+        ctx.drawImage(
+          from,
+          (x - t * moveX) * scaleFrom, (y - t * moveY) * scaleFrom, blockWidth * scaleFrom, blockHeight * scaleFrom,
+          x, y, blockWidth, blockHeight
+        );
+        ctx.globalAlpha = t;
+        ctx.drawImage(
+          to,
+          (x + (1 - t) * moveX) * scaleTo, (y + (1 - t) * moveY) * scaleTo, blockWidth * scaleTo, blockHeight * scaleTo,
+          x, y, blockWidth, blockHeight
+        );
+      }
+    }
+  }
+
+  ctx.globalAlpha = 1;
+}
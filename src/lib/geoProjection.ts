@@ -0,0 +1,174 @@
+// GOES-R ABI fixed-grid projection
+// Converts between image pixels, scan angles and latitude/longitude
+// Reference: GOES-R Product User Guide, section 4.2.8 (navigation)
+
+import { SECTORS, parseResolution } from './goesApi';
+import type { FixedGridExtent, MesoLocation, Satellite, Sector } from './goesApi';
+
+// GRS80 ellipsoid and GOES-R orbit
+const R_EQ = 6378137;            // Semi-major axis (m)
+const R_POL = 6356752.31414;     // Semi-minor axis (m)
+const H = 35786023 + R_EQ;       // Distance from Earth center to satellite (m)
+const E2 = 0.0066943800699785;   // First eccentricity squared
+
+// Sub-satellite longitude of each satellite's operational slot
+export const SATELLITE_LONGITUDE: Record<Satellite, number> = {
+  GOES16: -75.2,
+  GOES18: -137.2,
+  GOES19: -75.2,
+};
+
+// Half-width of a mesoscale sector in degrees latitude (~1000 km square)
+const MESO_HALF_SPAN_DEG = 4.5;
+
+export interface LatLon {
+  lat: number;
+  lon: number;
+}
+
+// Everything needed to navigate one image
+export interface ImageGeoref {
+  subLon: number;
+  extent: FixedGridExtent;
+}
+
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+const toDeg = (rad: number) => (rad * 180) / Math.PI;
+
+// Scan angles (radians) to lat/lon - null when the line of sight misses the Earth
+export function scanAngleToLatLon(x: number, y: number, subLon: number): LatLon | null {
+  const cosX = Math.cos(x);
+  const cosY = Math.cos(y);
+  const sinX = Math.sin(x);
+  const sinY = Math.sin(y);
+
+  const a = sinX * sinX + cosX * cosX * (cosY * cosY + (R_EQ * R_EQ) / (R_POL * R_POL) * sinY * sinY);
+  const b = -2 * H * cosX * cosY;
+  const c = H * H - R_EQ * R_EQ;
+  const discriminant = b * b - 4 * a * c;
+  if (discriminant < 0) return null;
+
+  const rs = (-b - Math.sqrt(discriminant)) / (2 * a);
+  const sx = rs * cosX * cosY;
+  const sy = -rs * sinX;
+  const sz = rs * cosX * sinY;
+
+  const lat = Math.atan((R_EQ * R_EQ) / (R_POL * R_POL) * (sz / Math.sqrt((H - sx) * (H - sx) + sy * sy)));
+  const lon = toRad(subLon) - Math.atan(sy / (H - sx));
+  return { lat: toDeg(lat), lon: ((toDeg(lon) + 540) % 360) - 180 };
+}
+
+// Lat/lon to scan angles (radians) - null when the point is on the far side of the Earth
+export function latLonToScanAngle(lat: number, lon: number, subLon: number): { x: number; y: number } | null {
+  const phi = toRad(lat);
+  const phiC = Math.atan((R_POL * R_POL) / (R_EQ * R_EQ) * Math.tan(phi));
+  const rc = R_POL / Math.sqrt(1 - E2 * Math.cos(phiC) * Math.cos(phiC));
+  const dLon = toRad(lon - subLon);
+
+  const sx = H - rc * Math.cos(phiC) * Math.cos(dLon);
+  const sy = -rc * Math.cos(phiC) * Math.sin(dLon);
+  const sz = rc * Math.sin(phiC);
+
+  // Hidden behind the limb
+  if (H * (H - sx) < sy * sy + (R_EQ * R_EQ) / (R_POL * R_POL) * sz * sz) return null;
+
+  return {
+    x: Math.asin(-sy / Math.sqrt(sx * sx + sy * sy + sz * sz)),
+    y: Math.atan(sz / sx),
+  };
+}
+
+// Scan-angle box covering lat/lon bounds as seen from a satellite
+function boundsToExtent(
+  north: number,
+  south: number,
+  west: number,
+  east: number,
+  subLon: number
+): FixedGridExtent | null {
+  const corners = [
+    latLonToScanAngle(north, west, subLon),
+    latLonToScanAngle(north, east, subLon),
+    latLonToScanAngle(south, west, subLon),
+    latLonToScanAngle(south, east, subLon),
+  ];
+  if (corners.some((corner) => corner === null)) return null;
+  const points = corners as { x: number; y: number }[];
+  return {
+    xMin: Math.min(...points.map((p) => p.x)),
+    xMax: Math.max(...points.map((p) => p.x)),
+    yMin: Math.min(...points.map((p) => p.y)),
+    yMax: Math.max(...points.map((p) => p.y)),
+  };
+}
+
+// Navigation for a sector's images as served by a given satellite
+// Returns null when the sector can't be georeferenced (e.g. meso location unknown)
+export function getImageGeoref(
+  sector: Sector,
+  satellite: Satellite,
+  mesoLocation: MesoLocation | null = null
+): ImageGeoref | null {
+  const { georef } = SECTORS[sector];
+  const subLon = SATELLITE_LONGITUDE[satellite];
+
+  switch (georef.kind) {
+    case 'fixedGrid': {
+      const extent = georef.extents[satellite];
+      return extent ? { subLon, extent } : null;
+    }
+    case 'bounds': {
+      const extent = boundsToExtent(georef.north, georef.south, georef.west, georef.east, subLon);
+      return extent ? { subLon, extent } : null;
+    }
+    case 'meso': {
+      if (!mesoLocation) return null;
+      const { lat, lon } = mesoLocation;
+      const lonSpan = MESO_HALF_SPAN_DEG / Math.max(Math.cos(toRad(lat)), 0.2);
+      const extent = boundsToExtent(
+        lat + MESO_HALF_SPAN_DEG,
+        lat - MESO_HALF_SPAN_DEG,
+        lon - lonSpan,
+        lon + lonSpan,
+        subLon
+      );
+      return extent ? { subLon, extent } : null;
+    }
+  }
+}
+
+// Normalized image position (0-1 from the top-left corner) to lat/lon
+export function imageToLatLon(georef: ImageGeoref, u: number, v: number): LatLon | null {
+  const { extent } = georef;
+  const x = extent.xMin + u * (extent.xMax - extent.xMin);
+  const y = extent.yMax - v * (extent.yMax - extent.yMin);
+  return scanAngleToLatLon(x, y, georef.subLon);
+}
+
+// Lat/lon to normalized image position - may fall outside 0-1 when off-image
+export function latLonToImage(georef: ImageGeoref, lat: number, lon: number): { u: number; v: number } | null {
+  const angles = latLonToScanAngle(lat, lon, georef.subLon);
+  if (!angles) return null;
+  const { extent } = georef;
+  return {
+    u: (angles.x - extent.xMin) / (extent.xMax - extent.xMin),
+    v: (extent.yMax - angles.y) / (extent.yMax - extent.yMin),
+  };
+}
+
+// Where an object-fit: contain image actually lands inside its box
+export function getContainedImageRect(
+  resolution: string,
+  boxWidth: number,
+  boxHeight: number
+): { left: number; top: number; width: number; height: number } | null {
+  if (!/^\d+x\d+$/.test(resolution) || boxWidth === 0 || boxHeight === 0) return null;
+  const { width, height } = parseResolution(resolution);
+  const scale = Math.min(boxWidth / width, boxHeight / height);
+  return {
+    left: (boxWidth - width * scale) / 2,
+    top: (boxHeight - height * scale) / 2,
+    width: width * scale,
+    height: height * scale,
+  };
+}
@@ -18,150 +18,536 @@ export type Sector =
   | 'southernrockies'// Southern Rockies
   | 'northernrockies'// Northern Rockies
   | 'southernplains'// Southern Plains
-  | 'mexico';  // Mexico
+  | 'mexico'   // Mexico
+  | 'meso1east'// GOES-East Mesoscale 1 (moves)
+  | 'meso2east'// GOES-East Mesoscale 2 (moves)
+  | 'meso1west'// GOES-West Mesoscale 1 (moves)
+  | 'meso2west';// GOES-West Mesoscale 2 (moves)
 
-export type ImageType =
-  | 'GEOCOLOR'  // Natural color (day) / IR (night)
-  | 'Band02'    // Visible red
-  | 'Band13'    // Clean IR longwave
-  | 'Band14';   // IR longwave window
+export type AbiBand =
+  | 'Band01' | 'Band02' | 'Band03' | 'Band04'
+  | 'Band05' | 'Band06' | 'Band07' | 'Band08'
+  | 'Band09' | 'Band10' | 'Band11' | 'Band12'
+  | 'Band13' | 'Band14' | 'Band15' | 'Band16';
+
+export type RgbComposite =
+  | 'GEOCOLOR'        // Natural color (day) / IR (night)
+  | 'AirMass'         // Air mass RGB - jet streaks, dry intrusions
+  | 'Sandwich'        // Visible + IR overlay for convection
+  | 'DayCloudPhase'   // Day cloud phase distinction RGB
+  | 'FireTemperature' // Fire temperature RGB
+  | 'DMW'             // Derived motion winds
+  | 'Dust';           // Dust RGB
+
+// Product directory names as used in NOAA CDN
+export type ImageType = AbiBand | RgbComposite;
 
 export type Satellite = 'GOES16' | 'GOES18' | 'GOES19';
 
+// Scan-angle extents of an image on the GOES-R fixed grid, in radians
+// x grows eastward, y grows northward; yMax is the top edge of the image
+export interface FixedGridExtent {
+  xMin: number;
+  xMax: number;
+  yMin: number;
+  yMax: number;
+}
+
+// How a sector's images map to the Earth
+export type SectorGeoref =
+  // Native fixed-grid images with published scan-angle extents per satellite
+  | { kind: 'fixedGrid'; extents: Partial<Record<Satellite, FixedGridExtent>> }
+  // Approximate corner bounds in degrees, projected through the serving satellite
+  | { kind: 'bounds'; north: number; south: number; west: number; east: number }
+  // ~1000 km box around the runtime mesoscale location
+  | { kind: 'meso' };
+
 export interface SectorInfo {
   name: string;
   description: string;
   satellite: Satellite;
   // Path segment as used in NOAA CDN
   pathSegment: string;
-  // 'direct' = /GOES19/ABI/CONUS/, 'sector' = /GOES19/ABI/SECTOR/ne/
-  pathType: 'sector' | 'direct';
+  // 'direct' = /GOES19/ABI/CONUS/, 'sector' = /GOES19/ABI/SECTOR/ne/, 'meso' = /GOES19/ABI/MESO/M1/
+  pathType: 'sector' | 'direct' | 'meso';
+  // Minutes between scans
+  cadenceMinutes: number;
+  // Satellites to try, in order, when the primary's directory is unavailable
+  failover: Satellite[];
+  georef: SectorGeoref;
+}
+
+// Full disk extent is symmetric about the sub-satellite point for every GOES-R satellite
+const FULL_DISK_EXTENT: FixedGridExtent = { xMin: -0.151872, xMax: 0.151872, yMin: -0.151872, yMax: 0.151872 };
+
+// CONUS scan box - GOES-West's "CONUS" directory holds the PACUS scan
+const CONUS_EAST_EXTENT: FixedGridExtent = { xMin: -0.101332, xMax: 0.038612, yMin: 0.044268, yMax: 0.128212 };
+const PACUS_EXTENT: FixedGridExtent = { xMin: -0.069972, xMax: 0.069972, yMin: 0.044268, yMax: 0.128212 };
+
+// Regional sector bounds are approximate - NOAA doesn't publish them with the images
+function bounds(north: number, south: number, west: number, east: number): SectorGeoref {
+  return { kind: 'bounds', north, south, west, east };
 }
 
 // Sector configuration - maps user-friendly IDs to actual NOAA paths
 // GOES-East (GOES-16/19) covers Eastern US, Atlantic, Caribbean
 // GOES-West (GOES-18) covers Western US, Pacific, Alaska, Hawaii
+// Overlapping sectors fail over to the other operational satellite,
+// everything else to GOES-16 (former GOES-East) for archive periods
 export const SECTORS: Record<Sector, SectorInfo> = {
-  FD: { name: 'Full Disk', description: 'Earth', satellite: 'GOES19', pathSegment: 'FD', pathType: 'direct' },
-  CONUS: { name: 'CONUS', description: 'Continental US', satellite: 'GOES19', pathSegment: 'CONUS', pathType: 'direct' },
+  FD: { name: 'Full Disk', description: 'Earth', satellite: 'GOES19', pathSegment: 'FD', pathType: 'direct', cadenceMinutes: 10, failover: ['GOES18', 'GOES16'], georef: { kind: 'fixedGrid', extents: { GOES16: FULL_DISK_EXTENT, GOES18: FULL_DISK_EXTENT, GOES19: FULL_DISK_EXTENT } } },
+  CONUS: { name: 'CONUS', description: 'Continental US', satellite: 'GOES19', pathSegment: 'CONUS', pathType: 'direct', cadenceMinutes: 5, failover: ['GOES18', 'GOES16'], georef: { kind: 'fixedGrid', extents: { GOES16: CONUS_EAST_EXTENT, GOES19: CONUS_EAST_EXTENT, GOES18: PACUS_EXTENT } } },
 
   // GOES-19/East sectors
-  northeast: { name: 'Northeast', description: 'New England', satellite: 'GOES19', pathSegment: 'ne', pathType: 'sector' },
-  southeast: { name: 'Southeast', description: 'Florida & Gulf', satellite: 'GOES19', pathSegment: 'se', pathType: 'sector' },
-  caribbean: { name: 'Caribbean', description: 'Caribbean Sea', satellite: 'GOES19', pathSegment: 'car', pathType: 'sector' },
-  puertorico: { name: 'Puerto Rico', description: 'PR & USVI', satellite: 'GOES19', pathSegment: 'pr', pathType: 'sector' },
-  greatlakes: { name: 'Great Lakes', description: 'Great Lakes', satellite: 'GOES19', pathSegment: 'cgl', pathType: 'sector' },
-  uppermidwest: { name: 'Upper Midwest', description: 'Upper Midwest', satellite: 'GOES19', pathSegment: 'umv', pathType: 'sector' },
-  southernrockies: { name: 'Southern Rockies', description: 'S Rockies', satellite: 'GOES19', pathSegment: 'sr', pathType: 'sector' },
-  southernplains: { name: 'Southern Plains', description: 'S Plains', satellite: 'GOES19', pathSegment: 'sp', pathType: 'sector' },
-  mexico: { name: 'Mexico', description: 'Mexico', satellite: 'GOES19', pathSegment: 'mex', pathType: 'sector' },
+  northeast: { name: 'Northeast', description: 'New England', satellite: 'GOES19', pathSegment: 'ne', pathType: 'sector', cadenceMinutes: 5, failover: ['GOES16'], georef: bounds(48, 37, -82, -66) },
+  southeast: { name: 'Southeast', description: 'Florida & Gulf', satellite: 'GOES19', pathSegment: 'se', pathType: 'sector', cadenceMinutes: 5, failover: ['GOES16'], georef: bounds(37, 24, -92, -74) },
+  caribbean: { name: 'Caribbean', description: 'Caribbean Sea', satellite: 'GOES19', pathSegment: 'car', pathType: 'sector', cadenceMinutes: 5, failover: ['GOES16'], georef: bounds(25, 9, -88, -58) },
+  puertorico: { name: 'Puerto Rico', description: 'PR & USVI', satellite: 'GOES19', pathSegment: 'pr', pathType: 'sector', cadenceMinutes: 5, failover: ['GOES16'], georef: bounds(21, 15, -70, -62) },
+  greatlakes: { name: 'Great Lakes', description: 'Great Lakes', satellite: 'GOES19', pathSegment: 'cgl', pathType: 'sector', cadenceMinutes: 5, failover: ['GOES16'], georef: bounds(50, 39, -94, -74) },
+  uppermidwest: { name: 'Upper Midwest', description: 'Upper Midwest', satellite: 'GOES19', pathSegment: 'umv', pathType: 'sector', cadenceMinutes: 5, failover: ['GOES16'], georef: bounds(50, 38, -100, -84) },
+  southernrockies: { name: 'Southern Rockies', description: 'S Rockies', satellite: 'GOES19', pathSegment: 'sr', pathType: 'sector', cadenceMinutes: 5, failover: ['GOES16'], georef: bounds(42, 31, -114, -100) },
+  southernplains: { name: 'Southern Plains', description: 'S Plains', satellite: 'GOES19', pathSegment: 'sp', pathType: 'sector', cadenceMinutes: 5, failover: ['GOES16'], georef: bounds(38, 26, -106, -92) },
+  mexico: { name: 'Mexico', description: 'Mexico', satellite: 'GOES19', pathSegment: 'mex', pathType: 'sector', cadenceMinutes: 5, failover: ['GOES16'], georef: bounds(33, 14, -118, -86) },
 
   // GOES-18/West sectors
-  alaska: { name: 'Alaska', description: 'Alaska', satellite: 'GOES18', pathSegment: 'ak', pathType: 'sector' },
-  hawaii: { name: 'Hawaii', description: 'Hawaii', satellite: 'GOES18', pathSegment: 'hi', pathType: 'sector' },
-  pacificnw: { name: 'Pacific NW', description: 'Pacific Northwest', satellite: 'GOES18', pathSegment: 'pnw', pathType: 'sector' },
-  pacificsw: { name: 'Pacific SW', description: 'California', satellite: 'GOES18', pathSegment: 'psw', pathType: 'sector' },
-  northernrockies: { name: 'Northern Rockies', description: 'N Rockies', satellite: 'GOES18', pathSegment: 'np', pathType: 'sector' },
+  alaska: { name: 'Alaska', description: 'Alaska', satellite: 'GOES18', pathSegment: 'ak', pathType: 'sector', cadenceMinutes: 10, failover: [], georef: bounds(72, 50, -175, -130) },
+  hawaii: { name: 'Hawaii', description: 'Hawaii', satellite: 'GOES18', pathSegment: 'hi', pathType: 'sector', cadenceMinutes: 10, failover: [], georef: bounds(25, 16, -164, -152) },
+  pacificnw: { name: 'Pacific NW', description: 'Pacific Northwest', satellite: 'GOES18', pathSegment: 'pnw', pathType: 'sector', cadenceMinutes: 5, failover: ['GOES19', 'GOES16'], georef: bounds(50, 41, -128, -114) },
+  pacificsw: { name: 'Pacific SW', description: 'California', satellite: 'GOES18', pathSegment: 'psw', pathType: 'sector', cadenceMinutes: 5, failover: ['GOES19', 'GOES16'], georef: bounds(43, 31, -126, -113) },
+  northernrockies: { name: 'Northern Rockies', description: 'N Rockies', satellite: 'GOES18', pathSegment: 'np', pathType: 'sector', cadenceMinutes: 5, failover: ['GOES19', 'GOES16'], georef: bounds(50, 40, -118, -100) },
+
+  // Mesoscale sectors - 1-minute scans, repositioned by NOAA to follow active weather
+  meso1east: { name: 'Meso 1 (East)', description: 'GOES-East Mesoscale 1', satellite: 'GOES19', pathSegment: 'M1', pathType: 'meso', cadenceMinutes: 1, failover: [], georef: { kind: 'meso' } },
+  meso2east: { name: 'Meso 2 (East)', description: 'GOES-East Mesoscale 2', satellite: 'GOES19', pathSegment: 'M2', pathType: 'meso', cadenceMinutes: 1, failover: [], georef: { kind: 'meso' } },
+  meso1west: { name: 'Meso 1 (West)', description: 'GOES-West Mesoscale 1', satellite: 'GOES18', pathSegment: 'M1', pathType: 'meso', cadenceMinutes: 1, failover: [], georef: { kind: 'meso' } },
+  meso2west: { name: 'Meso 2 (West)', description: 'GOES-West Mesoscale 2', satellite: 'GOES18', pathSegment: 'M2', pathType: 'meso', cadenceMinutes: 1, failover: [], georef: { kind: 'meso' } },
 };
 
+export interface ProductInfo {
+  name: string;
+  description: string;
+  kind: 'band' | 'composite';
+  // Central wavelength in micrometers (single bands only)
+  wavelength: number | null;
+  // 'day' products need sunlight; 'both' work around the clock
+  dayNight: 'day' | 'night' | 'both';
+  // Sectors whose directories carry this product ('all' = every sector)
+  sectors: Sector[] | 'all';
+}
+
+// Product catalog - every ABI band and the standard RGB composites on the NOAA CDN
+// Derived motion winds are only produced for the CONUS and Full Disk scans
+export const PRODUCTS: Record<ImageType, ProductInfo> = {
+  GEOCOLOR: { name: 'GeoColor', description: 'True color by day, IR with city lights by night', kind: 'composite', wavelength: null, dayNight: 'both', sectors: 'all' },
+  AirMass: { name: 'Air Mass', description: 'Jet streams, dry intrusions and air mass temperature', kind: 'composite', wavelength: null, dayNight: 'both', sectors: 'all' },
+  Sandwich: { name: 'Sandwich', description: 'Visible texture with IR cloud-top temperature', kind: 'composite', wavelength: null, dayNight: 'day', sectors: 'all' },
+  DayCloudPhase: { name: 'Day Cloud Phase', description: 'Ice vs water clouds and cloud-top glaciation', kind: 'composite', wavelength: null, dayNight: 'day', sectors: 'all' },
+  FireTemperature: { name: 'Fire Temperature', description: 'Active fires and burn intensity', kind: 'composite', wavelength: null, dayNight: 'day', sectors: 'all' },
+  DMW: { name: 'Derived Winds', description: 'Derived motion wind vectors', kind: 'composite', wavelength: null, dayNight: 'both', sectors: ['FD', 'CONUS'] },
+  Dust: { name: 'Dust', description: 'Airborne dust and sand', kind: 'composite', wavelength: null, dayNight: 'both', sectors: 'all' },
+
+  Band01: { name: 'Blue', description: 'Visible blue - aerosols and smoke', kind: 'band', wavelength: 0.47, dayNight: 'day', sectors: 'all' },
+  Band02: { name: 'Visible', description: 'Visible red - highest resolution cloud detail', kind: 'band', wavelength: 0.64, dayNight: 'day', sectors: 'all' },
+  Band03: { name: 'Veggie', description: 'Near-IR - vegetation, burn scars, land/water', kind: 'band', wavelength: 0.86, dayNight: 'day', sectors: 'all' },
+  Band04: { name: 'Cirrus', description: 'Near-IR - thin cirrus detection', kind: 'band', wavelength: 1.37, dayNight: 'day', sectors: 'all' },
+  Band05: { name: 'Snow/Ice', description: 'Near-IR - snow, ice and cloud phase', kind: 'band', wavelength: 1.61, dayNight: 'day', sectors: 'all' },
+  Band06: { name: 'Particle Size', description: 'Near-IR - cloud particle size, snow', kind: 'band', wavelength: 2.24, dayNight: 'day', sectors: 'all' },
+  Band07: { name: 'Shortwave IR', description: 'Shortwave window - fog, fires, night low clouds', kind: 'band', wavelength: 3.9, dayNight: 'both', sectors: 'all' },
+  Band08: { name: 'Upper WV', description: 'Upper-level water vapor', kind: 'band', wavelength: 6.19, dayNight: 'both', sectors: 'all' },
+  Band09: { name: 'Mid WV', description: 'Mid-level water vapor', kind: 'band', wavelength: 6.93, dayNight: 'both', sectors: 'all' },
+  Band10: { name: 'Lower WV', description: 'Lower-level water vapor', kind: 'band', wavelength: 7.34, dayNight: 'both', sectors: 'all' },
+  Band11: { name: 'Cloud Phase', description: 'Cloud-top phase, SO2', kind: 'band', wavelength: 8.44, dayNight: 'both', sectors: 'all' },
+  Band12: { name: 'Ozone', description: 'Total column ozone, upper-level dynamics', kind: 'band', wavelength: 9.61, dayNight: 'both', sectors: 'all' },
+  Band13: { name: 'IR Clean', description: 'Clean longwave IR - cloud-top temperature', kind: 'band', wavelength: 10.33, dayNight: 'both', sectors: 'all' },
+  Band14: { name: 'IR Window', description: 'Longwave IR window', kind: 'band', wavelength: 11.21, dayNight: 'both', sectors: 'all' },
+  Band15: { name: 'Dirty IR', description: 'Dirty longwave IR - low-level moisture, dust', kind: 'band', wavelength: 12.29, dayNight: 'both', sectors: 'all' },
+  Band16: { name: 'CO2 IR', description: 'CO2 longwave IR - air temperature, cloud heights', kind: 'band', wavelength: 13.28, dayNight: 'both', sectors: 'all' },
+};
+
+// Check whether a sector's directory carries a product
+export function isProductAvailable(imageType: ImageType, sector: Sector): boolean {
+  const { sectors } = PRODUCTS[imageType];
+  return sectors === 'all' || sectors.includes(sector);
+}
+
+// Products for a sector, composites first then bands in order - for building selectors
+export function getProductsForSector(sector: Sector): { value: ImageType; label: string; info: ProductInfo }[] {
+  return (Object.entries(PRODUCTS) as [ImageType, ProductInfo][])
+    .filter(([type]) => isProductAvailable(type, sector))
+    .map(([type, info]) => ({
+      value: type,
+      label: info.kind === 'band'
+        ? `${info.name} (${type.replace('Band', 'B')}, ${info.wavelength} µm)`
+        : info.name,
+      info,
+    }));
+}
+
 // Base CDN URL
 const CDN_BASE = 'https://cdn.star.nesdis.noaa.gov';
 
+// NOAA STAR site - publishes where each mesoscale sector is currently pointed
+const STAR_BASE = 'https://www.star.nesdis.noaa.gov';
+
+// Satellites that can serve a sector, primary first
+export function getSectorSatellites(sector: Sector): Satellite[] {
+  const info = SECTORS[sector];
+  return [info.satellite, ...info.failover];
+}
+
+// Display name for a satellite, e.g. "GOES-19"
+export function formatSatelliteName(satellite: Satellite): string {
+  return satellite.replace('GOES', 'GOES-');
+}
+
 // Get the correct path for a sector based on its type
-function getSectorPath(sector: Sector): string {
+function getSectorPath(sector: Sector, satellite: Satellite = SECTORS[sector].satellite): string {
   const info = SECTORS[sector];
   if (info.pathType === 'direct') {
     // CONUS and FD use: /GOES19/ABI/CONUS/GEOCOLOR/
-    return `${CDN_BASE}/${info.satellite}/ABI/${info.pathSegment}`;
+    return `${CDN_BASE}/${satellite}/ABI/${info.pathSegment}`;
+  } else if (info.pathType === 'meso') {
+    // Mesoscale sectors use: /GOES19/ABI/MESO/M1/GEOCOLOR/
+    return `${CDN_BASE}/${satellite}/ABI/MESO/${info.pathSegment}`;
   } else {
     // Regional sectors use: /GOES19/ABI/SECTOR/ne/GEOCOLOR/
-    return `${CDN_BASE}/${info.satellite}/ABI/SECTOR/${info.pathSegment}`;
+    return `${CDN_BASE}/${satellite}/ABI/SECTOR/${info.pathSegment}`;
   }
 }
 
 // Build URL for latest image
 export function getLatestImageUrl(
   sector: Sector,
-  imageType: ImageType = 'GEOCOLOR'
+  imageType: ImageType = 'GEOCOLOR',
+  satellite?: Satellite
 ): string {
-  return `${getSectorPath(sector)}/${imageType}/latest.jpg`;
+  return `${getSectorPath(sector, satellite)}/${imageType}/latest.jpg`;
 }
 
 // Get the directory URL for a sector/type combination
 export function getDirectoryUrl(
   sector: Sector,
-  imageType: ImageType = 'GEOCOLOR'
+  imageType: ImageType = 'GEOCOLOR',
+  satellite?: Satellite
 ): string {
-  return `${getSectorPath(sector)}/${imageType}/`;
+  return `${getSectorPath(sector, satellite)}/${imageType}/`;
 }
 
-// Parse directory listing to get available image URLs
-// Auto-discovers the correct resolution for each sector
-export async function fetchAvailableImages(
-  sector: Sector,
-  imageType: ImageType = 'GEOCOLOR',
-  maxImages: number = 24
-): Promise<string[]> {
-  const directoryUrl = getDirectoryUrl(sector, imageType);
-  const sectorInfo = SECTORS[sector];
+// How fetchAvailableImages picks among the resolutions NOAA publishes
+export type ResolutionPolicy =
+  | { mode: 'auto' }                                   // ~60% up the list (biased toward larger)
+  | { mode: 'explicit'; resolution: string }           // Exact WxH, or the closest available
+  | { mode: 'maxPixels'; maxPixels: number }           // Largest image within a pixel budget
+  | { mode: 'fit'; width: number; height: number; devicePixelRatio?: number } // Smallest image that fills a container
+  | { mode: 'saver' };                                 // Smallest usable image to save bandwidth
 
-  try {
-    const response = await fetch(directoryUrl);
-    if (!response.ok) {
-      throw new Error(`Failed to fetch directory: ${response.status}`);
-    }
+// Data saver skips thumbnails narrower than this
+const SAVER_MIN_WIDTH = 600;
 
-    const html = await response.text();
+// One scan image on the NOAA CDN
+export interface GoesFrame {
+  url: string;
+  scanTime: Date;
+  satellite: Satellite;
+  sector: Sector;
+  product: ImageType;
+  // "WxH", or 'latest' for the undated latest.jpg fallback
+  resolution: string;
+}
 
-    // Find all available resolutions for this sector
-    // Pattern: TIMESTAMP_SATELLITE-ABI-SECTOR-TYPE-RESOLUTION.jpg
-    const resPattern = new RegExp(
-      `\\d{11}_${sectorInfo.satellite}-ABI-${sectorInfo.pathSegment}-${imageType}-(\\d+x\\d+)\\.jpg`,
-      'gi'
-    );
-    const resMatches = Array.from(html.matchAll(resPattern));
-    const resolutions = new Set(resMatches.map((m) => m[1]));
+export interface ImageListing {
+  // Frames at the chosen resolution, oldest first
+  frames: GoesFrame[];
+  // Satellite whose directory actually served the frames
+  satellite: Satellite;
+  // Resolution the URLs were built for - 'latest' when the directory couldn't
+  // be read, null if it listed no resolutions
+  resolution: string | null;
+  // Every resolution found in the directory, smallest first
+  resolutions: string[];
+}
+
+// Parse a "WxH" resolution string
+export function parseResolution(resolution: string): { width: number; height: number } {
+  const [width, height] = resolution.split('x').map((n) => parseInt(n, 10));
+  return { width, height };
+}
 
-    if (resolutions.size === 0) {
-      console.error('No resolutions found in directory listing');
-      return [];
+function pixelCount(resolution: string): number {
+  const { width, height } = parseResolution(resolution);
+  return width * height;
+}
+
+// Pick a resolution from the available list according to a policy
+// `resolutions` must be sorted smallest first
+export function chooseResolution(resolutions: string[], policy: ResolutionPolicy): string | null {
+  if (resolutions.length === 0) return null;
+
+  switch (policy.mode) {
+    case 'explicit': {
+      if (resolutions.includes(policy.resolution)) return policy.resolution;
+      // Closest pixel count to the requested size
+      const target = pixelCount(policy.resolution);
+      return resolutions.reduce((best, res) =>
+        Math.abs(pixelCount(res) - target) < Math.abs(pixelCount(best) - target) ? res : best
+      );
+    }
+    case 'maxPixels': {
+      const fitting = resolutions.filter((res) => pixelCount(res) <= policy.maxPixels);
+      return fitting.length > 0 ? fitting[fitting.length - 1] : resolutions[0];
     }
+    case 'fit': {
+      const dpr = policy.devicePixelRatio ?? 1;
+      const targetWidth = policy.width * dpr;
+      const targetHeight = policy.height * dpr;
+      // Images keep their aspect ratio, so one dimension filling the container is enough
+      const covering = resolutions.find((res) => {
+        const { width, height } = parseResolution(res);
+        return width >= targetWidth || height >= targetHeight;
+      });
+      return covering ?? resolutions[resolutions.length - 1];
+    }
+    case 'saver':
+      return resolutions.find((res) => parseResolution(res).width >= SAVER_MIN_WIDTH) ?? resolutions[0];
+    case 'auto':
+    default: {
+      const idx = Math.min(Math.floor(resolutions.length * 0.6), resolutions.length - 1);
+      return resolutions[idx];
+    }
+  }
+}
 
-    // Pick a medium-to-large resolution
-    const sortedRes = Array.from(resolutions).sort((a, b) => {
-      const aSize = parseInt(a.split('x')[0], 10);
-      const bSize = parseInt(b.split('x')[0], 10);
-      return aSize - bSize;
+// Parse a NOAA directory listing into frames (every resolution, oldest first)
+// Pure - takes the listing HTML so it can run against fixture pages
+// Filename pattern: TIMESTAMP_SATELLITE-ABI-SECTOR-TYPE-RESOLUTION.jpg
+export function parseDirectoryListing(
+  html: string,
+  sector: Sector,
+  imageType: ImageType
+): GoesFrame[] {
+  const { pathSegment } = SECTORS[sector];
+  const pattern = new RegExp(
+    `(\\d{11})_(GOES\\d{2})-ABI-${pathSegment}-${imageType}-(\\d+x\\d+)\\.jpg`,
+    'gi'
+  );
+
+  // Listings mention each file twice (href and link text)
+  const frames = new Map<string, GoesFrame>();
+  for (const match of html.matchAll(pattern)) {
+    const [filename, timestamp, satelliteId, resolution] = match;
+    if (frames.has(filename)) continue;
+    const satellite = satelliteId.toUpperCase() as Satellite;
+    frames.set(filename, {
+      url: `${getDirectoryUrl(sector, imageType, satellite)}${filename}`,
+      scanTime: parseNoaaTimestamp(timestamp),
+      satellite,
+      sector,
+      product: imageType,
+      resolution,
     });
+  }
 
-    // Pick ~60% of the way up the resolution list (biased toward larger)
-    const idx = Math.min(Math.floor(sortedRes.length * 0.6), sortedRes.length - 1);
-    const resolution = sortedRes[idx];
+  return Array.from(frames.values()).sort((a, b) => a.scanTime.getTime() - b.scanTime.getTime());
+}
 
-    // Now find all images at this resolution
-    const pattern = new RegExp(
-      `(\\d{11})_${sectorInfo.satellite}-ABI-${sectorInfo.pathSegment}-${imageType}-${resolution}\\.jpg`,
-      'gi'
-    );
+// Frame for the undated latest.jpg - scan time is unknown, so it's stamped with now
+function getLatestFrame(sector: Sector, imageType: ImageType): GoesFrame {
+  return {
+    url: getLatestImageUrl(sector, imageType),
+    scanTime: new Date(),
+    satellite: SECTORS[sector].satellite,
+    sector,
+    product: imageType,
+    resolution: 'latest',
+  };
+}
 
-    const matches = Array.from(html.matchAll(pattern));
-    const timestamps = new Set<string>();
-    for (const match of matches) {
-      timestamps.add(match[1]);
-    }
+// True for the rejection an aborted fetch produces - callers should stop quietly
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+// Fetch one satellite's directory listing and pick a resolution by policy
+// Returns every frame at that resolution, oldest first
+async function fetchListing(
+  sector: Sector,
+  imageType: ImageType,
+  policy: ResolutionPolicy,
+  satellite: Satellite,
+  signal?: AbortSignal
+): Promise<ImageListing> {
+  const response = await fetch(getDirectoryUrl(sector, imageType, satellite), { signal });
+  if (!response.ok) {
+    throw new Error(`Failed to fetch directory: ${response.status}`);
+  }
 
-    // Sort timestamps (oldest first) and take the most recent N
-    const sortedTimestamps = Array.from(timestamps).sort();
-    const recentTimestamps = sortedTimestamps.slice(-maxImages);
+  const allFrames = parseDirectoryListing(await response.text(), sector, imageType);
 
-    // Build full URLs
-    return recentTimestamps.map(
-      (ts) => `${directoryUrl}${ts}_${sectorInfo.satellite}-ABI-${sectorInfo.pathSegment}-${imageType}-${resolution}.jpg`
-    );
+  // Find all available resolutions for this sector
+  const resolutions = Array.from(new Set(allFrames.map((f) => f.resolution)))
+    .sort((a, b) => pixelCount(a) - pixelCount(b));
+
+  const resolution = chooseResolution(resolutions, policy);
+  if (!resolution) {
+    console.error(`No resolutions found in ${satellite} directory listing`);
+    return { frames: [], satellite, resolution: null, resolutions: [] };
+  }
+
+  const frames = allFrames.filter((f) => f.resolution === resolution);
+  return { frames, satellite, resolution, resolutions };
+}
+
+// Try each of a sector's satellites in failover order until one yields frames
+async function fetchWithFailover<T extends ImageListing>(
+  sector: Sector,
+  load: (satellite: Satellite) => Promise<T>
+): Promise<T> {
+  let lastError: unknown = null;
+  for (const satellite of getSectorSatellites(sector)) {
+    try {
+      const listing = await load(satellite);
+      if (listing.frames.length > 0) return listing;
+      lastError = new Error(`No frames from ${satellite}`);
+    } catch (error) {
+      // A cancelled load shouldn't fail over to the next satellite
+      if (isAbortError(error)) throw error;
+      lastError = error;
+    }
+    console.warn(`${satellite} could not serve ${sector}, trying next satellite:`, lastError);
+  }
+  throw lastError ?? new Error(`No satellites configured for ${sector}`);
+}
+
+// Fetch a directory listing and return the most recent frames
+// Discovers every resolution for the sector and picks one by policy
+export async function fetchAvailableImages(
+  sector: Sector,
+  imageType: ImageType = 'GEOCOLOR',
+  maxImages: number = 24,
+  policy: ResolutionPolicy = { mode: 'auto' },
+  signal?: AbortSignal
+): Promise<ImageListing> {
+  try {
+    return await fetchWithFailover(sector, async (satellite) => {
+      const listing = await fetchListing(sector, imageType, policy, satellite, signal);
+      // Frames are already oldest first - take the most recent N
+      return { ...listing, frames: listing.frames.slice(-maxImages) };
+    });
   } catch (error) {
+    if (isAbortError(error)) throw error;
     console.error('Error fetching available images:', error);
-    // Fallback to just latest if directory fetch fails
-    return [getLatestImageUrl(sector, imageType)];
+    // Fallback to just latest if every directory fetch fails
+    return {
+      frames: [getLatestFrame(sector, imageType)],
+      satellite: SECTORS[sector].satellite,
+      resolution: 'latest',
+      resolutions: [],
+    };
+  }
+}
+
+export interface TimeRange {
+  start: Date;
+  end: Date;
+}
+
+export interface TimeRangeListing extends ImageListing {
+  // Scan times the sector's cadence says should exist in the range but don't
+  missing: Date[];
+  // Frames in the range before decimation
+  totalFrames: number;
+}
+
+// Scan times expected between start and end, aligned to a known scan
+// NOAA scans on a fixed schedule, so any real scan anchors the grid
+export function getExpectedScanTimes(anchor: Date, cadenceMinutes: number, range: TimeRange): Date[] {
+  const step = cadenceMinutes * 60 * 1000;
+  const offset = ((anchor.getTime() - range.start.getTime()) % step + step) % step;
+  const times: Date[] = [];
+  for (let t = range.start.getTime() + offset; t <= range.end.getTime(); t += step) {
+    times.push(new Date(t));
+  }
+  return times;
+}
+
+// Expected scan times with no frame within half a cadence of them
+export function findMissingScans(frames: GoesFrame[], cadenceMinutes: number, range: TimeRange): Date[] {
+  if (frames.length === 0) return [];
+  const tolerance = (cadenceMinutes * 60 * 1000) / 2;
+  const actual = frames.map((f) => f.scanTime.getTime());
+  return getExpectedScanTimes(frames[0].scanTime, cadenceMinutes, range).filter(
+    (expected) => !actual.some((t) => Math.abs(t - expected.getTime()) < tolerance)
+  );
+}
+
+// Number of scans missing immediately before each frame (first frame is always 0)
+// Decimated loops are measured against their typical spacing, not the raw cadence
+export function getFrameGaps(frames: GoesFrame[], cadenceMinutes: number): number[] {
+  if (frames.length < 2) return frames.map(() => 0);
+  const intervals = frames.slice(1).map((f, i) => f.scanTime.getTime() - frames[i].scanTime.getTime());
+  const median = [...intervals].sort((a, b) => a - b)[Math.floor((intervals.length - 1) / 2)];
+  const step = Math.max(cadenceMinutes * 60 * 1000, median);
+  return [0, ...intervals.map((interval) => Math.max(0, Math.round(interval / step) - 1))];
+}
+
+// Evenly thin a frame list down to maxFrames, always keeping the first and newest frame
+export function decimateFrames<T>(frames: T[], maxFrames: number): T[] {
+  if (frames.length <= maxFrames || maxFrames < 2) return frames.slice(-Math.max(maxFrames, 1));
+  const step = (frames.length - 1) / (maxFrames - 1);
+  return Array.from({ length: maxFrames }, (_, i) => frames[Math.round(i * step)]);
+}
+
+// How a playing loop takes a newer listing of the same sector/product
+export type LoopUpdate =
+  | { kind: 'unavailable' }                 // Only the latest.jpg fallback - keep the loop as it is
+  | { kind: 'reload' }                      // Other resolution or satellite - frames can't be mixed
+  | { kind: 'append'; frames: GoesFrame[] }; // Scans newer than the loop's newest, oldest first
+
+export function planLoopUpdate(newest: GoesFrame, listed: GoesFrame[]): LoopUpdate {
+  const latest = listed[listed.length - 1];
+  if (!latest) return { kind: 'append', frames: [] };
+  if (latest.resolution === 'latest') return { kind: 'unavailable' };
+  if (latest.resolution !== newest.resolution || latest.satellite !== newest.satellite) return { kind: 'reload' };
+  return { kind: 'append', frames: listed.filter((frame) => frame.scanTime > newest.scanTime) };
+}
+
+// Fetch frames scanned within a time range, thinned to maxFrames for playback
+// Gaps are reported in `missing` rather than closed silently
+export async function fetchImagesInRange(
+  sector: Sector,
+  imageType: ImageType,
+  range: TimeRange,
+  maxFrames: number = 96,
+  policy: ResolutionPolicy = { mode: 'auto' },
+  signal?: AbortSignal
+): Promise<TimeRangeListing> {
+  try {
+    // Failover also covers archive periods the primary satellite has no data for
+    return await fetchWithFailover(sector, async (satellite) => {
+      const listing = await fetchListing(sector, imageType, policy, satellite, signal);
+      const inRange = listing.frames.filter(
+        (f) => f.scanTime >= range.start && f.scanTime <= range.end
+      );
+
+      return {
+        ...listing,
+        frames: decimateFrames(inRange, maxFrames),
+        missing: findMissingScans(inRange, SECTORS[sector].cadenceMinutes, range),
+        totalFrames: inRange.length,
+      };
+    });
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.error('Error fetching images in range:', error);
+    // latest.jpg can't stand in for a past window
+    return {
+      frames: [],
+      satellite: SECTORS[sector].satellite,
+      resolution: null,
+      resolutions: [],
+      missing: [],
+      totalFrames: 0,
+    };
   }
 }
 
@@ -179,8 +565,76 @@ export function parseNoaaTimestamp(timestamp: string): Date {
   return date;
 }
 
-// Extract timestamp from a NOAA image URL
-export function extractTimestamp(url: string): string | null {
-  const match = url.match(/(\d{11})_GOES/);
-  return match ? match[1] : null;
+// Mesoscale sectors are repositioned as weather develops, so their
+// location has to be discovered at runtime rather than stored in SECTORS
+export interface MesoLocation {
+  lat: number;
+  lon: number;
+  fetchedAt: Date;
+}
+
+export function isMesoSector(sector: Sector): boolean {
+  return SECTORS[sector].pathType === 'meso';
+}
+
+// Parse the STAR mesoscale page for sector center points
+// Matches e.g. "Mesoscale 1 ... 27.5°N 80.2°W" - returns lat/lon keyed by M1/M2
+export function parseMesoLocations(html: string): Partial<Record<'M1' | 'M2', { lat: number; lon: number }>> {
+  const text = html.replace(/<[^>]+>/g, ' ').replace(/&deg;|&#176;/g, '°').replace(/&nbsp;|&#160;/g, ' ');
+  const result: Partial<Record<'M1' | 'M2', { lat: number; lon: number }>> = {};
+  const pattern = /(?:Mesoscale|Meso|M)\s*-?\s*([12])\b[^°]{0,200}?(\d{1,2}(?:\.\d+)?)\s*°?\s*([NS])[\s,/]+(\d{1,3}(?:\.\d+)?)\s*°?\s*([EW])/gi;
+
+  for (const match of text.matchAll(pattern)) {
+    const key = `M${match[1]}` as 'M1' | 'M2';
+    if (result[key]) continue;
+    const lat = parseFloat(match[2]) * (match[3].toUpperCase() === 'S' ? -1 : 1);
+    const lon = parseFloat(match[4]) * (match[5].toUpperCase() === 'W' ? -1 : 1);
+    result[key] = { lat, lon };
+  }
+
+  return result;
+}
+
+// Short-lived cache so switching between meso sectors doesn't refetch the page
+// - also how often a meso sector's location is looked up again while shown
+export const MESO_LOCATION_TTL_MS = 5 * 60 * 1000;
+const mesoLocationCache = new Map<Satellite, { fetchedAt: Date; locations: ReturnType<typeof parseMesoLocations> }>();
+
+// Find where a mesoscale sector is currently pointed
+// Returns null for fixed sectors or when the location can't be determined
+export async function fetchMesoLocation(sector: Sector): Promise<MesoLocation | null> {
+  const info = SECTORS[sector];
+  if (info.pathType !== 'meso') return null;
+
+  try {
+    let cached = mesoLocationCache.get(info.satellite);
+    if (!cached || Date.now() - cached.fetchedAt.getTime() >= MESO_LOCATION_TTL_MS) {
+      // Timed from the request, so a lookup one TTL later always refetches
+      const fetchedAt = new Date();
+      const satCode = info.satellite.replace('GOES', 'G');
+      const response = await fetch(`${STAR_BASE}/goes/meso_index.php?sat=${satCode}`);
+      if (!response.ok) {
+        throw new Error(`Failed to fetch meso locations: ${response.status}`);
+      }
+      const locations = parseMesoLocations(await response.text());
+      if (!locations.M1 && !locations.M2) {
+        console.warn(`No mesoscale locations found on the ${satCode} meso page - has its markup changed?`);
+      }
+      cached = { fetchedAt, locations };
+      mesoLocationCache.set(info.satellite, cached);
+    }
+
+    const location = cached.locations[info.pathSegment as 'M1' | 'M2'];
+    return location ? { ...location, fetchedAt: cached.fetchedAt } : null;
+  } catch (error) {
+    console.error('Error fetching meso location:', error);
+    return null;
+  }
+}
+
+// Format a point for display, e.g. "27.5°N 80.2°W"
+export function formatLatLon(lat: number, lon: number, digits: number = 1): string {
+  const latStr = `${Math.abs(lat).toFixed(digits)}°${lat >= 0 ? 'N' : 'S'}`;
+  const lonStr = `${Math.abs(lon).toFixed(digits)}°${lon >= 0 ? 'E' : 'W'}`;
+  return `${latStr} ${lonStr}`;
 }
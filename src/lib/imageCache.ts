@@ -1,111 +1,685 @@
 import { openDB } from 'idb';
 import type { DBSchema, IDBPDatabase } from 'idb';
+import { acquireFrameUrl, retainFrameUrl } from './frameHandles';
+import { PRODUCTS, SECTORS, getDirectoryUrl, getSectorSatellites, isAbortError, parseNoaaTimestamp } from './goesApi';
+import { getLoopKey, withCacheLock } from './tabCoordinator';
+import { createZip, readZip } from './zipArchive';
+import type { ZipEntry } from './zipArchive';
+import type { GoesFrame, ImageListing, ImageType, Satellite, Sector, TimeRange } from './goesApi';
+
+// A cached image plus the frame it belongs to, so the cache can be queried
+// by sector, product and scan time without the network
+interface CachedImage {
+  url: string;
+  blob: Blob;
+  timestamp: number; // When it was cached
+  sector: Sector;
+  product: ImageType;
+  satellite: Satellite;
+  resolution: string;
+  scanTime: number;
+}
+
+// Last successful directory fetch for a sector/product
+export interface FetchRecord {
+  key: string;
+  sector: Sector;
+  product: ImageType;
+  satellite: Satellite;
+  lastFetch: number;
+  frameCount: number;
+  newestScanTime: number | null;
+}
+
+// Manifest stored alongside the frame images in a loop bundle
+export interface LoopBundleManifest {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  createdAt: string;
+  sector: Sector;
+  product: ImageType;
+  satellite: Satellite;
+  resolution: string;
+  frames: {
+    file: string; // Path of the image inside the archive
+    url: string;  // Original NOAA URL - also the cache key once imported
+    scanTime: string;
+    satellite: Satellite;
+    resolution: string;
+  }[];
+}
+
+export interface LoopBundle {
+  manifest: LoopBundleManifest;
+  frames: GoesFrame[];
+}
 
 interface WeatherCacheDB extends DBSchema {
   images: {
+    key: string;
+    value: CachedImage;
+    indexes: { 'by-frame': [Sector, ImageType, number] };
+  };
+  // Size and last use of each cached image, kept apart from the blobs so
+  // stats and eviction can walk it without pulling images into memory
+  entries: {
     key: string;
     value: {
       url: string;
-      blob: Blob;
-      timestamp: number;
-      sector: string;
+      size: number;
+      lastAccess: number;
+      imported?: boolean; // Came from a loop bundle, not the CDN
     };
+    indexes: { 'by-lastAccess': number };
   };
   metadata: {
     key: string;
-    value: {
-      lastFetch: number;
-      frameCount: number;
-    };
+    value: FetchRecord;
   };
 }
 
+const BUNDLE_FORMAT = 'weather-loop-bundle';
+const BUNDLE_VERSION = 1;
+const BUNDLE_MANIFEST = 'manifest.json';
+
 const DB_NAME = 'weather-loop-cache';
-const DB_VERSION = 1;
+const DB_VERSION = 3;
+
+// Default cap on cached image bytes - roughly a dozen full loops at high resolution
+const DEFAULT_CACHE_BUDGET = 250 * 1024 * 1024;
+// Never use more than this share of the origin's storage quota
+const QUOTA_FRACTION = 0.5;
+// Access times from reads are batched and written this long after the first
+const ACCESS_FLUSH_MS = 5000;
 
 let dbPromise: Promise<IDBPDatabase<WeatherCacheDB>> | null = null;
+let cacheBudget = DEFAULT_CACHE_BUDGET;
+const pendingAccess = new Map<string, number>(); // URL → last read, not yet written
+let accessFlushTimer: ReturnType<typeof setTimeout> | null = null;
 
 function getDB(): Promise<IDBPDatabase<WeatherCacheDB>> {
   if (!dbPromise) {
     dbPromise = openDB<WeatherCacheDB>(DB_NAME, DB_VERSION, {
-      upgrade(db) {
+      async upgrade(db, oldVersion, _newVersion, tx) {
         if (!db.objectStoreNames.contains('images')) {
           db.createObjectStore('images', { keyPath: 'url' });
         }
         if (!db.objectStoreNames.contains('metadata')) {
           db.createObjectStore('metadata', { keyPath: 'key' });
         }
+        // v2: size/access index - backfilled from images cached under v1
+        if (oldVersion < 2) {
+          const entries = db.createObjectStore('entries', { keyPath: 'url' });
+          entries.createIndex('by-lastAccess', 'lastAccess');
+
+          let cursor = await tx.objectStore('images').openCursor();
+          while (cursor) {
+            const { url, blob, timestamp } = cursor.value;
+            await entries.put({ url, size: blob.size, lastAccess: timestamp });
+            cursor = await cursor.continue();
+          }
+        }
+        // v3: frame details on every image, indexed by sector/product/scan time
+        if (oldVersion < 3) {
+          const images = tx.objectStore('images');
+          images.createIndex('by-frame', ['sector', 'product', 'scanTime']);
+
+          let cursor = await images.openCursor();
+          while (cursor) {
+            // Older records carry only url, sector and (sometimes) scan time
+            const record: Partial<CachedImage> = cursor.value;
+            const details = describeImageUrl(cursor.value.url);
+            if (details) {
+              await cursor.update({
+                ...cursor.value,
+                ...details,
+                scanTime: record.scanTime ?? details.scanTime ?? cursor.value.timestamp,
+              });
+            } else {
+              await tx.objectStore('entries').delete(cursor.value.url);
+              await cursor.delete();
+            }
+            cursor = await cursor.continue();
+          }
+        }
       },
     });
   }
   return dbPromise;
 }
 
-export async function getCachedImage(url: string): Promise<Blob | null> {
+// Recover frame details from a CDN image URL, e.g.
+// /GOES19/ABI/SECTOR/ne/GEOCOLOR/20250011200_GOES19-ABI-ne-GEOCOLOR-1200x1200.jpg
+function describeImageUrl(url: string) {
+  const match = url.match(/\/(GOES\d{2})\/ABI\/.+\/([^/]+)\/([^/]+\.jpg)$/);
+  if (!match) return null;
+  const [, satellite, product, filename] = match;
+  // latest.jpg carries no scan time or resolution
+  const dated = filename.match(/^(\d{11})_.*-(\d+x\d+)\.jpg$/);
+  return {
+    satellite: satellite as Satellite,
+    product: product as ImageType,
+    resolution: dated ? dated[2] : 'latest',
+    scanTime: dated ? parseNoaaTimestamp(dated[1]).getTime() : null,
+  };
+}
+
+// Change the byte budget enforced by evictToBudget
+export function setCacheBudget(bytes: number): void {
+  cacheBudget = bytes;
+}
+
+// Reads count as use for eviction unless `recordAccess` is false, e.g. for
+// previews of the cache itself
+export async function getCachedImage(url: string, { recordAccess = true } = {}): Promise<Blob | null> {
   const db = await getDB();
   const record = await db.get('images', url);
-  return record?.blob ?? null;
+  if (!record) return null;
+  if (!recordAccess) return record.blob;
+
+  // Touch the entry so recently viewed frames are evicted last
+  pendingAccess.set(url, Date.now());
+  accessFlushTimer ??= setTimeout(() => {
+    flushAccessTimes().catch((error) => console.warn('Failed to record cache access times:', error));
+  }, ACCESS_FLUSH_MS);
+  return record.blob;
 }
 
-export async function cacheImage(url: string, blob: Blob, sector: string): Promise<void> {
+// Write batched access times in one transaction, under the cache lock
+// Entries evicted since they were read stay gone
+async function flushAccessTimes(): Promise<void> {
+  if (accessFlushTimer !== null) clearTimeout(accessFlushTimer);
+  accessFlushTimer = null;
+  if (pendingAccess.size === 0) return;
+  const batch = new Map(pendingAccess);
+  pendingAccess.clear();
+
   const db = await getDB();
-  await db.put('images', {
-    url,
-    blob,
-    timestamp: Date.now(),
+  await withCacheLock(async () => {
+    const tx = db.transaction('entries', 'readwrite');
+    for (const [url, lastAccess] of batch) {
+      const entry = await tx.store.get(url);
+      if (entry && entry.lastAccess < lastAccess) await tx.store.put({ ...entry, lastAccess });
+    }
+    await tx.done;
+  });
+}
+
+// Writes are serialized across tabs sharing the cache
+export async function cacheImage(frame: GoesFrame, blob: Blob): Promise<void> {
+  const db = await getDB();
+  const now = Date.now();
+  await withCacheLock(async () => {
+    const tx = db.transaction(['images', 'entries'], 'readwrite');
+    await Promise.all([
+      tx.objectStore('images').put({
+        url: frame.url,
+        blob,
+        timestamp: now,
+        sector: frame.sector,
+        product: frame.product,
+        satellite: frame.satellite,
+        resolution: frame.resolution,
+        scanTime: frame.scanTime.getTime(),
+      }),
+      tx.objectStore('entries').put({ url: frame.url, size: blob.size, lastAccess: now }),
+      tx.done,
+    ]);
+  });
+}
+
+// Cached frames for a sector/product, oldest first - optionally limited to a
+// time range and a single resolution
+export async function getCachedFrames(
+  sector: Sector,
+  product: ImageType,
+  range?: TimeRange,
+  resolution?: string
+): Promise<GoesFrame[]> {
+  const db = await getDB();
+  const start = range ? range.start.getTime() : 0;
+  const end = range ? range.end.getTime() : Number.MAX_SAFE_INTEGER;
+  const records = await db.getAllFromIndex(
+    'images',
+    'by-frame',
+    IDBKeyRange.bound([sector, product, start], [sector, product, end])
+  );
+
+  return records
+    .filter((record) => !resolution || record.resolution === resolution)
+    .map((record) => ({
+      url: record.url,
+      scanTime: new Date(record.scanTime),
+      satellite: record.satellite,
+      sector: record.sector,
+      product: record.product,
+      resolution: record.resolution,
+    }));
+}
+
+// Remember a successful directory fetch for a sector/product
+export async function recordFetch(sector: Sector, product: ImageType, listing: ImageListing): Promise<void> {
+  const db = await getDB();
+  const newest = listing.frames[listing.frames.length - 1];
+  await db.put('metadata', {
+    key: getLoopKey(sector, product),
     sector,
+    product,
+    satellite: listing.satellite,
+    lastFetch: Date.now(),
+    frameCount: listing.frames.length,
+    newestScanTime: newest ? newest.scanTime.getTime() : null,
   });
 }
 
-export async function getCachedImageUrl(url: string): Promise<string | null> {
-  const blob = await getCachedImage(url);
+export async function getLastFetch(sector: Sector, product: ImageType): Promise<FetchRecord | null> {
+  const db = await getDB();
+  return (await db.get('metadata', getLoopKey(sector, product))) ?? null;
+}
+
+// Object URLs returned below hold a frame handle reference - pass the image
+// URL to releaseFrameUrl when done with them
+export async function getCachedImageUrl(url: string, options: { recordAccess?: boolean } = {}): Promise<string | null> {
+  const held = retainFrameUrl(url);
+  if (held) return held;
+
+  const blob = await getCachedImage(url, options);
   if (blob) {
-    return URL.createObjectURL(blob);
+    return acquireFrameUrl(url, blob);
   }
   return null;
 }
 
-export async function fetchAndCacheImage(url: string, sector: string): Promise<string> {
+export async function fetchAndCacheImage(frame: GoesFrame, signal?: AbortSignal): Promise<string> {
+  // Frames already on screen elsewhere share their object URL
+  const held = retainFrameUrl(frame.url);
+  if (held) return held;
+
   // Check cache first
-  const cached = await getCachedImage(url);
+  const cached = await getCachedImage(frame.url);
+  signal?.throwIfAborted();
   if (cached) {
-    return URL.createObjectURL(cached);
+    return acquireFrameUrl(frame.url, cached);
   }
 
   // Fetch from network
-  const response = await fetch(url);
+  const response = await fetch(frame.url, { signal });
   if (!response.ok) {
     throw new Error(`Failed to fetch image: ${response.status}`);
   }
 
   const blob = await response.blob();
-  await cacheImage(url, blob, sector);
-  return URL.createObjectURL(blob);
+  await cacheImage(frame, blob);
+  return acquireFrameUrl(frame.url, blob);
 }
 
+// Sweeps run one tab at a time, never alongside another tab's writes
 export async function clearOldCache(maxAgeMs: number = 24 * 60 * 60 * 1000): Promise<void> {
   const db = await getDB();
-  const tx = db.transaction('images', 'readwrite');
-  const store = tx.objectStore('images');
-  const now = Date.now();
+  await withCacheLock(async () => {
+    const tx = db.transaction(['images', 'entries'], 'readwrite');
+    const store = tx.objectStore('images');
+    const entries = tx.objectStore('entries');
+    const now = Date.now();
 
-  let cursor = await store.openCursor();
-  while (cursor) {
-    if (now - cursor.value.timestamp > maxAgeMs) {
+    let cursor = await store.openCursor();
+    while (cursor) {
+      if (now - cursor.value.timestamp > maxAgeMs) {
+        await entries.delete(cursor.value.url);
+        await cursor.delete();
+      }
+      cursor = await cursor.continue();
+    }
+
+    await tx.done;
+  });
+}
+
+// Effective byte budget - the configured cap, tightened to a share of the
+// storage quota when the browser reports one
+async function getEffectiveBudget(): Promise<number> {
+  if (!navigator.storage?.estimate) return cacheBudget;
+  try {
+    const { quota } = await navigator.storage.estimate();
+    return quota ? Math.min(cacheBudget, quota * QUOTA_FRACTION) : cacheBudget;
+  } catch {
+    return cacheBudget;
+  }
+}
+
+// Evict least-recently-used images until the cache fits its byte budget
+// Returns the number of images removed
+export async function evictToBudget(budgetBytes?: number): Promise<number> {
+  const budget = budgetBytes ?? await getEffectiveBudget();
+  const db = await getDB();
+  // Frames read since the last flush count as recently used
+  await flushAccessTimes();
+  return withCacheLock(async () => {
+    const tx = db.transaction(['images', 'entries'], 'readwrite');
+    const entries = tx.objectStore('entries');
+    const images = tx.objectStore('images');
+
+    let totalSize = 0;
+    let sizeCursor = await entries.openCursor();
+    while (sizeCursor) {
+      totalSize += sizeCursor.value.size;
+      sizeCursor = await sizeCursor.continue();
+    }
+
+    // Oldest access first
+    let evicted = 0;
+    let cursor = await entries.index('by-lastAccess').openCursor();
+    while (cursor && totalSize > budget) {
+      totalSize -= cursor.value.size;
+      await images.delete(cursor.value.url);
       await cursor.delete();
+      evicted++;
+      cursor = await cursor.continue();
     }
+
+    await tx.done;
+    return evicted;
+  });
+}
+
+// Ask the browser not to clear our storage under pressure (mobile Safari and
+// Chrome otherwise wipe it freely). Resolves true once storage is persistent.
+export async function requestPersistentStorage(): Promise<boolean> {
+  if (!navigator.storage?.persist) return false;
+  try {
+    if (await navigator.storage.persisted()) return true;
+    return await navigator.storage.persist();
+  } catch (error) {
+    console.error('Error requesting persistent storage:', error);
+    return false;
+  }
+}
+
+export async function getCacheStats(): Promise<{ count: number; sizeMB: number }> {
+  const db = await getDB();
+  let count = 0;
+  let totalSize = 0;
+  let cursor = await db.transaction('entries').store.openCursor();
+  while (cursor) {
+    count++;
+    totalSize += cursor.value.size;
     cursor = await cursor.continue();
   }
+  return {
+    count,
+    sizeMB: Math.round(totalSize / 1024 / 1024 * 100) / 100,
+  };
+}
+
+// Cached frames of one sector/product, as listed by the debug cache inspector
+export interface CacheGroupSummary {
+  sector: Sector;
+  product: ImageType;
+  count: number;
+  bytes: number;
+  oldestScanTime: number;
+  newestScanTime: number;
+  newestUrl: string;
+}
+
+// Per sector/product totals, walked from index keys so no image is loaded
+export async function getCacheSummary(): Promise<CacheGroupSummary[]> {
+  const db = await getDB();
+  const tx = db.transaction(['images', 'entries']);
+  const sizes = new Map<string, number>();
+  let sizeCursor = await tx.objectStore('entries').openCursor();
+  while (sizeCursor) {
+    sizes.set(sizeCursor.value.url, sizeCursor.value.size);
+    sizeCursor = await sizeCursor.continue();
+  }
 
+  // Index order is sector, product, scan time - each group ends on its newest frame
+  const groups: CacheGroupSummary[] = [];
+  let cursor = await tx.objectStore('images').index('by-frame').openKeyCursor();
+  while (cursor) {
+    const [sector, product, scanTime] = cursor.key;
+    const url = cursor.primaryKey;
+    const last = groups[groups.length - 1];
+    if (last && last.sector === sector && last.product === product) {
+      last.count++;
+      last.bytes += sizes.get(url) ?? 0;
+      last.newestScanTime = scanTime;
+      last.newestUrl = url;
+    } else {
+      groups.push({
+        sector,
+        product,
+        count: 1,
+        bytes: sizes.get(url) ?? 0,
+        oldestScanTime: scanTime,
+        newestScanTime: scanTime,
+        newestUrl: url,
+      });
+    }
+    cursor = await cursor.continue();
+  }
   await tx.done;
+  return groups;
 }
 
-export async function getCacheStats(): Promise<{ count: number; sizeMB: number }> {
+// Remove every cached image for a sector (or the whole cache), along with its
+// fetch records so no tab trusts a listing whose frames are gone
+// Returns the number of images removed
+export async function purgeCache(sector?: Sector): Promise<number> {
+  const db = await getDB();
+  return withCacheLock(async () => {
+    const tx = db.transaction(['images', 'entries', 'metadata'], 'readwrite');
+    const images = tx.objectStore('images');
+    const entries = tx.objectStore('entries');
+    const metadata = tx.objectStore('metadata');
+
+    let removed = 0;
+    if (!sector) {
+      removed = await images.count();
+      await Promise.all([images.clear(), entries.clear(), metadata.clear()]);
+    } else {
+      // Arrays sort after strings, so [sector, []] bounds every product
+      const range = IDBKeyRange.bound([sector], [sector, []]);
+      let cursor = await images.index('by-frame').openCursor(range);
+      while (cursor) {
+        await entries.delete(cursor.value.url);
+        await cursor.delete();
+        removed++;
+        cursor = await cursor.continue();
+      }
+      let recordCursor = await metadata.openCursor();
+      while (recordCursor) {
+        if (recordCursor.value.sector === sector) await recordCursor.delete();
+        recordCursor = await recordCursor.continue();
+      }
+    }
+
+    await tx.done;
+    return removed;
+  });
+}
+
+// Check cached images against the CDN and drop those it no longer serves
+// (NOAA rotates scans out after a few days) or that differ in size from the
+// original. Unreachable images are kept - offline isn't proof they're gone.
+// Frames imported from bundles are skipped: they outlive the CDN on purpose.
+export async function revalidateCache(signal?: AbortSignal): Promise<{ checked: number; removed: number }> {
   const db = await getDB();
-  const all = await db.getAll('images');
-  const totalSize = all.reduce((sum, item) => sum + item.blob.size, 0);
+  const entries = (await db.getAll('entries')).filter((entry) => !entry.imported);
+  const stale: string[] = [];
+
+  for (const entry of entries) {
+    try {
+      const response = await fetch(entry.url, { method: 'HEAD', cache: 'no-store', signal });
+      const length = Number(response.headers.get('content-length'));
+      if (response.status === 404 || response.status === 410 || (response.ok && length > 0 && length !== entry.size)) {
+        stale.push(entry.url);
+      }
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      console.warn('Could not revalidate cached image:', entry.url, error);
+    }
+  }
+
+  if (stale.length > 0) {
+    await withCacheLock(async () => {
+      const tx = db.transaction(['images', 'entries'], 'readwrite');
+      await Promise.all([
+        ...stale.flatMap((url) => [tx.objectStore('images').delete(url), tx.objectStore('entries').delete(url)]),
+        tx.done,
+      ]);
+    });
+  }
+
+  return { checked: entries.length, removed: stale.length };
+}
+
+// A frame plus its image bytes, as carried in a loop bundle
+export interface BundledFrame {
+  frame: GoesFrame;
+  data: Uint8Array<ArrayBuffer>;
+}
+
+// Build a loop bundle: a ZIP of the frame images plus a JSON manifest
+export function packLoopBundle(images: BundledFrame[]): Blob {
+  if (images.length === 0) {
+    throw new Error('No cached frames to save');
+  }
+
+  const entries: ZipEntry[] = [];
+  const manifestFrames: LoopBundleManifest['frames'] = [];
+  for (const { frame, data } of images) {
+    const file = `frames/${frame.url.split('/').pop()}`;
+    entries.push({ name: file, data, modified: frame.scanTime });
+    manifestFrames.push({
+      file,
+      url: frame.url,
+      scanTime: frame.scanTime.toISOString(),
+      satellite: frame.satellite,
+      resolution: frame.resolution,
+    });
+  }
+
+  const newest = images[images.length - 1].frame;
+  const manifest: LoopBundleManifest = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    createdAt: new Date().toISOString(),
+    sector: newest.sector,
+    product: newest.product,
+    satellite: newest.satellite,
+    resolution: newest.resolution,
+    frames: manifestFrames,
+  };
+  const manifestData = new TextEncoder().encode(JSON.stringify(manifest, null, 2));
+
+  return createZip([{ name: BUNDLE_MANIFEST, data: manifestData }, ...entries]);
+}
+
+// Rebuild a bundled frame from its manifest entry - the URL becomes a cache
+// key, so it must be a dated scan of the bundle's own sector and product that
+// agrees with the entry's satellite, resolution and scan time
+function readBundledFrame(manifest: LoopBundleManifest, entry: LoopBundleManifest['frames'][number]): GoesFrame {
+  if (typeof entry?.url !== 'string' || !getSectorSatellites(manifest.sector).includes(entry.satellite)) {
+    throw new Error('Loop bundle has an invalid frame entry');
+  }
+  const directory = getDirectoryUrl(manifest.sector, manifest.product, entry.satellite);
+  const described = entry.url.startsWith(directory) && !entry.url.slice(directory.length).includes('/')
+    ? describeImageUrl(entry.url)
+    : null;
+  if (!described || described.scanTime === null || described.resolution !== entry.resolution) {
+    throw new Error(`Loop bundle frame is not a ${manifest.sector} ${manifest.product} scan: ${entry.url}`);
+  }
+  const scanTime = new Date(entry.scanTime);
+  if (Number.isNaN(scanTime.getTime()) || scanTime.getTime() !== described.scanTime) {
+    throw new Error(`Loop bundle frame has an invalid scan time: ${entry.url}`);
+  }
   return {
-    count: all.length,
-    sizeMB: Math.round(totalSize / 1024 / 1024 * 100) / 100,
+    url: entry.url,
+    scanTime,
+    satellite: entry.satellite,
+    sector: manifest.sector,
+    product: manifest.product,
+    resolution: entry.resolution,
   };
 }
+
+// Read and check a loop bundle, frames oldest first
+export async function unpackLoopBundle(archive: Blob): Promise<{ manifest: LoopBundleManifest; images: BundledFrame[] }> {
+  const entries = await readZip(archive);
+  const manifestData = entries.get(BUNDLE_MANIFEST);
+  if (!manifestData) {
+    throw new Error('Not a weather loop bundle (no manifest)');
+  }
+
+  const manifest = JSON.parse(new TextDecoder().decode(manifestData)) as LoopBundleManifest;
+  if (manifest?.format !== BUNDLE_FORMAT || !(manifest.version <= BUNDLE_VERSION) || !Array.isArray(manifest.frames)) {
+    throw new Error('Unsupported loop bundle format');
+  }
+  if (!Object.hasOwn(SECTORS, manifest.sector) || !Object.hasOwn(PRODUCTS, manifest.product)) {
+    throw new Error(`Unknown sector or product in bundle: ${manifest.sector} ${manifest.product}`);
+  }
+
+  const images: BundledFrame[] = [];
+  for (const entry of manifest.frames) {
+    const frame = readBundledFrame(manifest, entry);
+    const data = entries.get(entry.file);
+    if (!data) {
+      throw new Error(`Loop bundle is missing ${entry.file}`);
+    }
+    // Every CDN frame is a JPEG
+    if (data[0] !== 0xff || data[1] !== 0xd8 || data[2] !== 0xff) {
+      throw new Error(`Loop bundle frame is not a JPEG image: ${entry.file}`);
+    }
+    images.push({ frame, data });
+  }
+
+  images.sort((a, b) => a.frame.scanTime.getTime() - b.frame.scanTime.getTime());
+  return { manifest, images };
+}
+
+// Package cached frames as a loop bundle. Frames missing from the cache are left out.
+export async function exportLoopBundle(frames: GoesFrame[]): Promise<Blob> {
+  const images: BundledFrame[] = [];
+  for (const frame of frames) {
+    const blob = await getCachedImage(frame.url);
+    if (!blob) {
+      console.warn('Frame missing from cache, not bundled:', frame.url);
+      continue;
+    }
+    images.push({ frame, data: new Uint8Array(await blob.arrayBuffer()) });
+  }
+  return packLoopBundle(images);
+}
+
+// Unpack a loop bundle into the cache so its frames play like any other loop
+// Frames already cached are left as they are
+export async function importLoopBundle(archive: Blob): Promise<LoopBundle> {
+  const { manifest, images } = await unpackLoopBundle(archive);
+  const db = await getDB();
+  const now = Date.now();
+
+  await withCacheLock(async () => {
+    const tx = db.transaction(['images', 'entries'], 'readwrite');
+    for (const { frame, data } of images) {
+      if (await tx.objectStore('images').getKey(frame.url)) continue;
+      const blob = new Blob([data], { type: 'image/jpeg' });
+      await Promise.all([
+        tx.objectStore('images').put({
+          url: frame.url,
+          blob,
+          timestamp: now,
+          sector: frame.sector,
+          product: frame.product,
+          satellite: frame.satellite,
+          resolution: frame.resolution,
+          scanTime: frame.scanTime.getTime(),
+        }),
+        tx.objectStore('entries').put({ url: frame.url, size: blob.size, lastAccess: now, imported: true }),
+      ]);
+    }
+    await tx.done;
+  });
+
+  return { manifest, frames: images.map(({ frame }) => frame) };
+}
@@ -0,0 +1,454 @@
+/**
+ * Map Layer Catalog
+ *
+ * Single source of truth for every raster layer MapView can show.
+ * MapView builds its MapLibre style, layer buttons and visibility state
+ * from these entries, so adding a provider means adding one entry here.
+ */
+
+import type maplibregl from 'maplibre-gl';
+import { proxyRainViewerUrl, proxyIemUrl, proxyGibsUrl } from './tileProxy';
+
+export type LayerProvider =
+  | 'carto'      // Carto basemaps
+  | 'eox'        // EOX Sentinel-2 Cloudless
+  | 'nowcoast'   // NOAA nowCOAST WMS
+  | 'gibs'       // NASA GIBS WMTS
+  | 'iem'        // Iowa Environmental Mesonet
+  | 'nws'        // NWS map services WMS
+  | 'rainviewer';// RainViewer radar tiles
+
+export type LayerGroup = 'base' | 'satellite' | 'radar';
+
+/**
+ * How the service worker caches a provider's tiles
+ * - cache-first: tiles never change, keep them until evicted
+ * - time-bounded: serve cached tiles until maxAgeMinutes old, then refetch
+ *   (stale tiles are still used when the network is down)
+ */
+export interface TileCachePolicy {
+  strategy: 'cache-first' | 'time-bounded';
+  maxAgeMinutes?: number;
+  // Oldest tiles are dropped beyond this many
+  maxEntries: number;
+}
+
+export const PROVIDER_CACHE_POLICIES: Record<LayerProvider, TileCachePolicy> = {
+  // Static basemaps and annual composites
+  carto: { strategy: 'cache-first', maxEntries: 3000 },
+  eox: { strategy: 'cache-first', maxEntries: 3000 },
+  // Live imagery with no time in the URL - only as fresh as the update cadence
+  nowcoast: { strategy: 'time-bounded', maxAgeMinutes: 5, maxEntries: 500 },
+  iem: { strategy: 'time-bounded', maxAgeMinutes: 5, maxEntries: 500 },
+  nws: { strategy: 'time-bounded', maxAgeMinutes: 5, maxEntries: 500 },
+  gibs: { strategy: 'time-bounded', maxAgeMinutes: 10, maxEntries: 1000 },
+  // Tile URLs are keyed by frame path, so a cached tile is never wrong -
+  // frames just drop out of RainViewer's ~2 hour window
+  rainviewer: { strategy: 'time-bounded', maxAgeMinutes: 120, maxEntries: 3000 },
+};
+
+/**
+ * Caching rule handed to the service worker - requests whose URL starts
+ * with one of the prefixes are cached under the provider's policy
+ */
+export interface TileCacheRule extends TileCachePolicy {
+  provider: LayerProvider;
+  prefixes: string[];
+}
+
+export interface LayerDefinition {
+  // MapLibre layer ID (also the key for visibility state)
+  id: string;
+  // MapLibre source ID
+  sourceId: string;
+  provider: LayerProvider;
+  group: LayerGroup;
+  // Tile URL templates before proxying
+  // Animated layers use {path} for the frame path and are added at runtime
+  tiles: string[];
+  // Rewrites tile URLs through the tile proxy (production only)
+  proxy?: (url: string) => string;
+  tileSize: number;
+  // Highest zoom the provider serves tiles for (MapLibre overzooms above it)
+  sourceMaxZoom?: number;
+  // Zoom range the layer is drawn at - omit maxZoom to allow overzoom
+  minZoom: number;
+  maxZoom?: number;
+  opacity: number;
+  resampling?: 'linear' | 'nearest';
+  attribution: string;
+  defaultVisible: boolean;
+  // Frame-by-frame layer whose tiles change with the time slider
+  animated?: boolean;
+  // Button text and tooltip - layers without a label are always on
+  label?: string;
+  title?: string;
+  // Position among its group's buttons - unordered layers come last, in draw order
+  buttonOrder?: number;
+}
+
+// NOAA WMS GetMap template for 256px EPSG:3857 tiles
+function wmsTile(base: string, layers: string, extra: string = ''): string {
+  return `${base}?SERVICE=WMS&VERSION=1.3.0&REQUEST=GetMap&LAYERS=${layers}&CRS=EPSG:3857&BBOX={bbox-epsg-3857}&WIDTH=256&HEIGHT=256&FORMAT=image/png&TRANSPARENT=true${extra}`;
+}
+
+// VIIRS is a daily product - yesterday is the newest complete day
+const viirsDate = new Date(Date.now() - 86400000).toISOString().split('T')[0];
+
+// Entries are listed in draw order (bottom to top)
+export const LAYER_CATALOG: LayerDefinition[] = [
+  // Dark base map with labels
+  {
+    id: 'base-dark',
+    sourceId: 'carto-dark',
+    provider: 'carto',
+    group: 'base',
+    tiles: [
+      'https://a.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}@2x.png',
+      'https://b.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}@2x.png',
+      'https://c.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}@2x.png',
+    ],
+    tileSize: 256,
+    minZoom: 0,
+    maxZoom: 18,
+    opacity: 1,
+    attribution: '© CARTO',
+    defaultVisible: true,
+  },
+  // EOX Sentinel-2 Cloudless - TRUE COLOR satellite (annual composite, no auth)
+  {
+    id: 'eox-truecolor-layer',
+    sourceId: 'eox-sentinel2',
+    provider: 'eox',
+    group: 'satellite',
+    tiles: ['https://tiles.maps.eox.at/wmts/1.0.0/s2cloudless-2024_3857/default/g/{z}/{y}/{x}.jpg'],
+    tileSize: 256,
+    sourceMaxZoom: 14,
+    minZoom: 0,
+    maxZoom: 14,
+    opacity: 0.9,
+    attribution: '© EOX Sentinel-2 Cloudless',
+    defaultVisible: true,
+    label: 'EOX',
+    title: 'EOX Sentinel-2 True Color Base',
+    buttonOrder: 1,
+  },
+  // nowCOAST GOES visible satellite (grayscale but works from web)
+  {
+    id: 'satellite-layer',
+    sourceId: 'goes-satellite',
+    provider: 'nowcoast',
+    group: 'satellite',
+    tiles: [wmsTile('https://nowcoast.noaa.gov/geoserver/satellite/wms', 'goes_visible_imagery')],
+    tileSize: 256,
+    minZoom: 0,
+    maxZoom: 10,
+    opacity: 0.7,
+    attribution: '© NOAA nowCOAST',
+    defaultVisible: false,
+    label: 'SAT',
+    title: 'nowCOAST Visible Satellite',
+    buttonOrder: 2,
+  },
+  // NASA GIBS VIIRS True Color - daily satellite (NO stitching gaps unlike MODIS!)
+  {
+    id: 'test-layer',
+    sourceId: 'gibs-viirs',
+    provider: 'gibs',
+    group: 'satellite',
+    tiles: [`https://gibs.earthdata.nasa.gov/wmts/epsg3857/best/VIIRS_SNPP_CorrectedReflectance_TrueColor/default/${viirsDate}/GoogleMapsCompatible_Level9/{z}/{y}/{x}.jpg`],
+    proxy: proxyGibsUrl,
+    tileSize: 256,
+    sourceMaxZoom: 9,
+    minZoom: 0,
+    maxZoom: 9,
+    opacity: 0.85,
+    attribution: '© NASA GIBS VIIRS',
+    defaultVisible: false,
+    label: 'VIIRS',
+    title: 'NASA GIBS VIIRS Daily',
+    buttonOrder: 7,
+  },
+  // NOAA nowCOAST infrared satellite - shows cloud patterns (5 min updates)
+  {
+    id: 'cloud-layer',
+    sourceId: 'nowcoast-ir',
+    provider: 'nowcoast',
+    group: 'satellite',
+    tiles: [wmsTile('https://nowcoast.noaa.gov/geoserver/satellite/wms', 'goes_longwave_imagery')],
+    tileSize: 256,
+    minZoom: 0,
+    maxZoom: 10,
+    opacity: 0.7,
+    attribution: '© NOAA nowCOAST IR',
+    defaultVisible: false,
+    label: 'IR',
+    title: 'NOAA Cloud Infrared',
+    buttonOrder: 3,
+  },
+  // KBOX (Boston) - local NEXRAD radar via Iowa Environmental Mesonet
+  // Format: ridge::BOX-N0Q-0 where 0 = current, or timestamp for historical
+  {
+    id: 'kbox-layer',
+    sourceId: 'kbox-radar',
+    provider: 'iem',
+    group: 'radar',
+    tiles: ['https://mesonet.agron.iastate.edu/cache/tile.py/1.0.0/ridge::BOX-N0Q-0/{z}/{x}/{y}.png'],
+    proxy: proxyIemUrl,
+    tileSize: 256,
+    minZoom: 0,
+    maxZoom: 10,
+    opacity: 0.8,
+    resampling: 'linear',
+    attribution: '© Iowa Environmental Mesonet',
+    defaultVisible: false,
+    label: 'KBOX',
+    title: 'KBOX Boston Radar',
+    buttonOrder: 2,
+  },
+  // GOES GeoColor - true color satellite from NASA GIBS (10 min updates, no referer issues)
+  // Uses GOES-East for Eastern US coverage - omitting time returns latest available
+  {
+    id: 'geocolor-layer',
+    sourceId: 'goes-geocolor',
+    provider: 'gibs',
+    group: 'satellite',
+    tiles: ['https://gibs.earthdata.nasa.gov/wmts/epsg3857/best/GOES-East_ABI_GeoColor/default/GoogleMapsCompatible_Level7/{z}/{y}/{x}.png'],
+    proxy: proxyGibsUrl,
+    tileSize: 256,
+    sourceMaxZoom: 7,
+    minZoom: 0,
+    opacity: 0.9,
+    attribution: '© NASA GIBS GOES-East',
+    defaultVisible: false,
+    label: 'GOES-E',
+    title: 'GOES-East GeoColor True Color',
+    buttonOrder: 4,
+  },
+  // MRMS - Multi-Radar Multi-Sensor composite (143 radars, 1km resolution)
+  {
+    id: 'mrms-layer',
+    sourceId: 'mrms-radar',
+    provider: 'iem',
+    group: 'radar',
+    tiles: ['https://mesonet.agron.iastate.edu/cache/tile.py/1.0.0/q2-n1p-900913/{z}/{x}/{y}.png'],
+    proxy: proxyIemUrl,
+    tileSize: 256,
+    minZoom: 0,
+    maxZoom: 10,
+    opacity: 0.75,
+    resampling: 'linear',
+    attribution: '© IEM MRMS',
+    defaultVisible: false,
+    label: 'MRMS',
+    title: 'MRMS Composite Radar',
+    buttonOrder: 3,
+  },
+  // Enhanced IR - GOES Band13 Clean Infrared from NASA GIBS (no referer issues)
+  {
+    id: 'ir-enhanced-layer',
+    sourceId: 'ir-enhanced',
+    provider: 'gibs',
+    group: 'satellite',
+    tiles: ['https://gibs.earthdata.nasa.gov/wmts/epsg3857/best/GOES-East_ABI_Band13_Clean_Infrared/default/GoogleMapsCompatible_Level6/{z}/{y}/{x}.png'],
+    proxy: proxyGibsUrl,
+    tileSize: 256,
+    sourceMaxZoom: 6,
+    minZoom: 0,
+    opacity: 0.8,
+    attribution: '© NASA GIBS GOES-East IR',
+    defaultVisible: false,
+    label: 'GIR',
+    title: 'GOES Enhanced IR',
+    buttonOrder: 6,
+  },
+  // IEM Animated NEXRAD - composite radar with 50 min history, updates every 5 min
+  // Good alternative to RainViewer to reduce rate limiting
+  {
+    id: 'iem-animated-layer',
+    sourceId: 'iem-animated',
+    provider: 'iem',
+    group: 'radar',
+    tiles: ['https://mesonet.agron.iastate.edu/cache/tile.py/1.0.0/nexrad-n0q-900913/{z}/{x}/{y}.png'],
+    proxy: proxyIemUrl,
+    tileSize: 256,
+    minZoom: 0,
+    maxZoom: 10,
+    opacity: 0.75,
+    resampling: 'linear',
+    attribution: '© Iowa Environmental Mesonet',
+    defaultVisible: false,
+    label: 'IEM',
+    title: 'IEM NEXRAD Composite (live)',
+    buttonOrder: 4,
+  },
+  // NWS Radar - official NOAA radar via WMS (alternative source)
+  {
+    id: 'nws-radar-layer',
+    sourceId: 'nws-radar',
+    provider: 'nws',
+    group: 'radar',
+    tiles: [wmsTile('https://mapservices.weather.noaa.gov/eventdriven/services/radar/radar_base_reflectivity/MapServer/WMSServer', '0', '&STYLES=')],
+    tileSize: 256,
+    minZoom: 0,
+    maxZoom: 10,
+    opacity: 0.75,
+    resampling: 'linear',
+    attribution: '© NWS',
+    defaultVisible: true,
+    label: 'NWS',
+    title: 'NWS Official Radar',
+    buttonOrder: 5,
+  },
+  // GOES-West GeoColor - alternative true color for Pacific/West coast (10 min updates)
+  // Useful as fallback when GOES-East has gaps or for western US coverage
+  {
+    id: 'goes-west-layer',
+    sourceId: 'goes-west',
+    provider: 'gibs',
+    group: 'satellite',
+    tiles: ['https://gibs.earthdata.nasa.gov/wmts/epsg3857/best/GOES-West_ABI_GeoColor/default/GoogleMapsCompatible_Level7/{z}/{y}/{x}.png'],
+    proxy: proxyGibsUrl,
+    tileSize: 256,
+    sourceMaxZoom: 7,
+    minZoom: 0,
+    opacity: 0.9,
+    attribution: '© NASA GIBS GOES-West',
+    defaultVisible: false,
+    label: 'GOES-W',
+    title: 'GOES-West GeoColor True Color (Pacific/Western US)',
+    buttonOrder: 5,
+  },
+  // RainViewer animated NEXRAD - tiles change per frame, added once frames are known
+  // Color scheme 2 = original, smooth=1, snow=1
+  {
+    id: 'radar-layer',
+    sourceId: 'radar',
+    provider: 'rainviewer',
+    group: 'radar',
+    tiles: ['https://tilecache.rainviewer.com{path}/256/{z}/{x}/{y}/2/1_1.png'],
+    proxy: proxyRainViewerUrl,
+    tileSize: 256,
+    sourceMaxZoom: 7,
+    minZoom: 0,
+    maxZoom: 7, // RainViewer only provides tiles up to zoom 7
+    opacity: 0.75,
+    resampling: 'linear',
+    attribution: '© RainViewer',
+    defaultVisible: false,
+    animated: true,
+    label: 'RAIN',
+    title: 'RainViewer NEXRAD (animated)',
+    buttonOrder: 1,
+  },
+];
+
+// Groups with toggle buttons, in the order they're shown
+export const LAYER_BUTTON_GROUPS: LayerGroup[] = ['satellite', 'radar'];
+
+export type LayerVisibility = Record<string, boolean>;
+
+// Look up a catalog entry by layer ID
+export function getLayer(id: string): LayerDefinition | undefined {
+  return LAYER_CATALOG.find((layer) => layer.id === id);
+}
+
+// Labelled layers of a button group, in button order
+export function getLayerButtons(group: LayerGroup): LayerDefinition[] {
+  return LAYER_CATALOG
+    .filter((layer) => layer.group === group && layer.label)
+    .sort((a, b) => (a.buttonOrder ?? Infinity) - (b.buttonOrder ?? Infinity));
+}
+
+// Initial visibility state for every catalog layer
+export function getDefaultVisibility(): LayerVisibility {
+  return Object.fromEntries(LAYER_CATALOG.map((layer) => [layer.id, layer.defaultVisible]));
+}
+
+/**
+ * Resolve a layer's tile URLs, substituting the frame path for animated
+ * layers and routing through the tile proxy where configured
+ */
+export function getTileUrls(layer: LayerDefinition, framePath: string = ''): string[] {
+  return layer.tiles.map((template) => {
+    const url = template.replace('{path}', framePath);
+    return layer.proxy ? layer.proxy(url) : url;
+  });
+}
+
+/**
+ * Build the MapLibre raster source for a catalog entry
+ */
+export function buildRasterSource(
+  layer: LayerDefinition,
+  framePath?: string
+): maplibregl.RasterSourceSpecification {
+  return {
+    type: 'raster',
+    tiles: getTileUrls(layer, framePath),
+    tileSize: layer.tileSize,
+    attribution: layer.attribution,
+    ...(layer.sourceMaxZoom !== undefined && { maxzoom: layer.sourceMaxZoom }),
+  };
+}
+
+/**
+ * Build the MapLibre raster layer for a catalog entry
+ */
+export function buildRasterLayer(
+  layer: LayerDefinition,
+  visible: boolean,
+  resampling: 'linear' | 'nearest' | undefined = layer.resampling
+): maplibregl.RasterLayerSpecification {
+  return {
+    id: layer.id,
+    type: 'raster',
+    source: layer.sourceId,
+    minzoom: layer.minZoom,
+    ...(layer.maxZoom !== undefined && { maxzoom: layer.maxZoom }),
+    layout: {
+      visibility: visible ? 'visible' : 'none',
+    },
+    paint: {
+      'raster-opacity': layer.opacity,
+      ...(resampling && { 'raster-resampling': resampling }),
+    },
+  };
+}
+
+/**
+ * Build the sources and layers for the initial map style
+ * Animated layers are skipped - they are added once their frames are known
+ */
+export function buildStyleLayers(visibility: LayerVisibility): {
+  sources: Record<string, maplibregl.RasterSourceSpecification>;
+  layers: maplibregl.RasterLayerSpecification[];
+} {
+  const staticLayers = LAYER_CATALOG.filter((layer) => !layer.animated);
+  return {
+    sources: Object.fromEntries(staticLayers.map((layer) => [layer.sourceId, buildRasterSource(layer)])),
+    layers: staticLayers.map((layer) => buildRasterLayer(layer, visibility[layer.id] ?? layer.defaultVisible)),
+  };
+}
+
+/**
+ * Service worker caching rules for every provider in the catalog
+ * Prefixes are taken from the (proxied) tile templates up to the first placeholder
+ */
+export function getTileCacheRules(): TileCacheRule[] {
+  const prefixes = new Map<LayerProvider, Set<string>>();
+  for (const layer of LAYER_CATALOG) {
+    for (const url of getTileUrls(layer, '{path}')) {
+      const end = url.search(/[{?]/);
+      const prefix = end === -1 ? url : url.slice(0, end);
+      const set = prefixes.get(layer.provider) ?? new Set<string>();
+      set.add(prefix);
+      prefixes.set(layer.provider, set);
+    }
+  }
+  return Array.from(prefixes, ([provider, set]) => ({
+    provider,
+    prefixes: Array.from(set),
+    ...PROVIDER_CACHE_POLICIES[provider],
+  }));
+}
@@ -0,0 +1,48 @@
+// Named places pinned onto the satellite loop as overlay labels
+// Only places that fall inside the current sector's image are drawn
+
+export interface Place {
+  name: string;
+  lat: number;
+  lon: number;
+}
+
+export const PLACES: Place[] = [
+  // Northeast
+  { name: 'Boston', lat: 42.36, lon: -71.06 },
+  { name: 'New York', lat: 40.71, lon: -74.01 },
+  { name: 'Philadelphia', lat: 39.95, lon: -75.17 },
+  { name: 'Washington', lat: 38.91, lon: -77.04 },
+  { name: 'Portland ME', lat: 43.66, lon: -70.26 },
+  { name: 'Albany', lat: 42.65, lon: -73.76 },
+  // Southeast & Gulf
+  { name: 'Atlanta', lat: 33.75, lon: -84.39 },
+  { name: 'Miami', lat: 25.76, lon: -80.19 },
+  { name: 'Tampa', lat: 27.95, lon: -82.46 },
+  { name: 'New Orleans', lat: 29.95, lon: -90.07 },
+  { name: 'Houston', lat: 29.76, lon: -95.37 },
+  // Central
+  { name: 'Chicago', lat: 41.88, lon: -87.63 },
+  { name: 'Detroit', lat: 42.33, lon: -83.05 },
+  { name: 'Minneapolis', lat: 44.98, lon: -93.27 },
+  { name: 'St. Louis', lat: 38.63, lon: -90.2 },
+  { name: 'Dallas', lat: 32.78, lon: -96.8 },
+  { name: 'Oklahoma City', lat: 35.47, lon: -97.52 },
+  { name: 'Denver', lat: 39.74, lon: -104.99 },
+  // West
+  { name: 'Phoenix', lat: 33.45, lon: -112.07 },
+  { name: 'Salt Lake City', lat: 40.76, lon: -111.89 },
+  { name: 'Las Vegas', lat: 36.17, lon: -115.14 },
+  { name: 'Los Angeles', lat: 34.05, lon: -118.24 },
+  { name: 'San Francisco', lat: 37.77, lon: -122.42 },
+  { name: 'Seattle', lat: 47.61, lon: -122.33 },
+  { name: 'Boise', lat: 43.62, lon: -116.2 },
+  // Alaska, Hawaii, Caribbean, Mexico
+  { name: 'Anchorage', lat: 61.22, lon: -149.9 },
+  { name: 'Fairbanks', lat: 64.84, lon: -147.72 },
+  { name: 'Honolulu', lat: 21.31, lon: -157.86 },
+  { name: 'San Juan', lat: 18.47, lon: -66.11 },
+  { name: 'Havana', lat: 23.11, lon: -82.37 },
+  { name: 'Mexico City', lat: 19.43, lon: -99.13 },
+  { name: 'Monterrey', lat: 25.69, lon: -100.32 },
+];
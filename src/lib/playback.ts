@@ -0,0 +1,74 @@
+// Frame stepping shared by every animated view
+// Frames are ordered oldest to newest; the last frame is the newest scan.
+
+// 'loop' plays forward and wraps, 'reverse' plays backward and wraps,
+// 'rock' bounces between the ends and 'once' stops on the newest frame
+export type PlaybackMode = 'loop' | 'rock' | 'reverse' | 'once';
+
+// +1 steps toward newer frames, -1 toward older ones
+export type PlaybackDirection = 1 | -1;
+
+export interface PlaybackStep {
+  frame: number;
+  direction: PlaybackDirection;
+  done: boolean; // Play-once reached the end - stop playing
+}
+
+export const PLAYBACK_MODE_OPTIONS: { value: PlaybackMode; label: string }[] = [
+  { value: 'loop', label: 'Loop' },
+  { value: 'rock', label: 'Rock' },
+  { value: 'reverse', label: 'Reverse' },
+  { value: 'once', label: 'Play once' },
+];
+
+// Hold on the newest frame before the loop comes round again
+export const DWELL_OPTIONS: { value: number; label: string }[] = [
+  { value: 0, label: 'No dwell' },
+  { value: 1000, label: 'Dwell 1s' },
+  { value: 2000, label: 'Dwell 2s' },
+  { value: 5000, label: 'Dwell 5s' },
+];
+
+// Direction a mode starts playing in
+export function getStartDirection(mode: PlaybackMode): PlaybackDirection {
+  return mode === 'reverse' ? -1 : 1;
+}
+
+// Frame to show after `current` in a loop of `count` frames
+// `direction` only matters in rock mode, where it flips at either end
+export function stepFrame(
+  current: number,
+  count: number,
+  mode: PlaybackMode,
+  direction: PlaybackDirection = getStartDirection(mode)
+): PlaybackStep {
+  if (count <= 1) return { frame: 0, direction, done: mode === 'once' };
+
+  switch (mode) {
+    case 'reverse':
+      return { frame: (current - 1 + count) % count, direction: -1, done: false };
+    case 'rock': {
+      const bounced: PlaybackDirection = current + direction < 0 || current + direction >= count
+        ? (-direction as PlaybackDirection)
+        : direction;
+      return { frame: current + bounced, direction: bounced, done: false };
+    }
+    case 'once':
+      return current >= count - 1
+        ? { frame: count - 1, direction: 1, done: true }
+        : { frame: current + 1, direction: 1, done: false };
+    default:
+      return { frame: (current + 1) % count, direction: 1, done: false };
+  }
+}
+
+// Frame to start from when play is pressed - play-once restarts from the
+// oldest frame if it already ran to the end
+export function getPlayStartFrame(current: number, count: number, mode: PlaybackMode): number {
+  return mode === 'once' && current >= count - 1 ? 0 : current;
+}
+
+// Extra hold on `current` before stepping on - only the newest frame dwells
+export function getDwellTime(current: number, count: number, dwellMs: number): number {
+  return current === count - 1 ? dwellMs : 0;
+}
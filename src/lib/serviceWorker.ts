@@ -0,0 +1,22 @@
+/**
+ * Service Worker Registration
+ *
+ * Registers public/sw.js (production builds only - it would fight Vite's
+ * dev server) and hands it the tile caching rules from the layer catalog.
+ */
+
+import { getTileCacheRules } from './layerCatalog';
+
+export function registerServiceWorker(): void {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+
+  window.addEventListener('load', async () => {
+    try {
+      await navigator.serviceWorker.register(`${import.meta.env.BASE_URL}sw.js`);
+      const registration = await navigator.serviceWorker.ready;
+      registration.active?.postMessage({ type: 'tile-cache-rules', rules: getTileCacheRules() });
+    } catch (error) {
+      console.error('Service worker registration failed:', error);
+    }
+  });
+}
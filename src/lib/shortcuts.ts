@@ -0,0 +1,74 @@
+// Keyboard shortcuts shared by the loop, map and globe views
+// Each view registers handlers for the actions it supports; keys for an
+// action are the same everywhere.
+
+// Handlers a view can register - actions it leaves out stay unbound
+export interface ShortcutHandlers {
+  togglePlay?: () => void;
+  prevFrame?: () => void;
+  nextFrame?: () => void;
+  firstFrame?: () => void;
+  lastFrame?: () => void;
+  faster?: () => void;
+  slower?: () => void;
+  selectSlot?: (index: number) => void; // Number keys 1-9, as index 0-8
+}
+
+export type ShortcutAction = keyof ShortcutHandlers;
+
+export interface ShortcutBinding {
+  keys: string[]; // KeyboardEvent.key values
+  label: string;  // Keys as shown in the help overlay
+  description: string;
+}
+
+export const SHORTCUT_BINDINGS: Record<ShortcutAction, ShortcutBinding> = {
+  togglePlay: { keys: [' '], label: 'Space', description: 'Play / pause' },
+  prevFrame: { keys: ['ArrowLeft'], label: '←', description: 'Previous frame' },
+  nextFrame: { keys: ['ArrowRight'], label: '→', description: 'Next frame' },
+  firstFrame: { keys: ['Home'], label: 'Home', description: 'Oldest frame' },
+  lastFrame: { keys: ['End'], label: 'End', description: 'Newest frame' },
+  faster: { keys: ['+', '='], label: '+', description: 'Faster' },
+  slower: { keys: ['-', '_'], label: '−', description: 'Slower' },
+  selectSlot: { keys: ['1', '2', '3', '4', '5', '6', '7', '8', '9'], label: '1–9', description: 'Select' },
+};
+
+// Key that opens the help overlay; Escape closes it
+export const HELP_KEY = '?';
+
+// Shortcut for a key press, or null when none applies
+export type ShortcutMatch =
+  | { action: ShortcutAction; slot?: number }
+  | { action: 'help' };
+
+// The parts of a KeyboardEvent shortcuts look at
+export interface ShortcutKeyEvent {
+  key: string;
+  ctrlKey: boolean;
+  metaKey: boolean;
+  altKey: boolean;
+  target: EventTarget | null;
+}
+
+// Keys typed into form fields belong to the field - a focused button keeps
+// Space too, since it clicks the button
+function isKeyForTarget(key: string, target: EventTarget | null): boolean {
+  const element = target as { tagName?: string; isContentEditable?: boolean } | null;
+  const tag = element?.tagName;
+  if (tag === 'INPUT' || tag === 'SELECT' || tag === 'TEXTAREA' || element?.isContentEditable) return true;
+  return key === ' ' && tag === 'BUTTON';
+}
+
+export function matchShortcut(event: ShortcutKeyEvent): ShortcutMatch | null {
+  // Browser and OS shortcuts (Ctrl+R, Cmd+1...) are left alone
+  if (event.ctrlKey || event.metaKey || event.altKey) return null;
+  if (isKeyForTarget(event.key, event.target)) return null;
+  if (event.key === HELP_KEY) return { action: 'help' };
+
+  for (const [action, binding] of Object.entries(SHORTCUT_BINDINGS) as [ShortcutAction, ShortcutBinding][]) {
+    const index = binding.keys.indexOf(event.key);
+    if (index === -1) continue;
+    return action === 'selectSlot' ? { action, slot: index } : { action };
+  }
+  return null;
+}
@@ -0,0 +1,145 @@
+// Coordination between tabs showing the same loops
+// - Web Locks elect one leader tab per sector/product to fetch from NOAA
+// - BroadcastChannel tells the other tabs when the leader has new frames, and
+//   lets a follower with nothing fresh to show ask the leader for them
+// - A shared lock serializes IndexedDB cache writes and sweeps
+// Browsers without these APIs behave as a single tab: always leader.
+
+import { isAbortError } from './goesApi';
+import type { GoesFrame, ImageType, Sector } from './goesApi';
+
+const LOCK_PREFIX = 'weather-loop';
+const CACHE_LOCK = `${LOCK_PREFIX}:cache-write`;
+const CHANNEL_NAME = 'weather-loop';
+
+interface LoopAnnouncement {
+  type: 'loop';
+  key: string;
+  frames: GoesFrame[]; // Dates survive structured cloning
+}
+
+interface LoopRequest {
+  type: 'request';
+  key: string;
+}
+
+type LoopMessage = LoopAnnouncement | LoopRequest;
+
+let channel: BroadcastChannel | null = null;
+
+function getChannel(): BroadcastChannel | null {
+  if (!channel && typeof BroadcastChannel !== 'undefined') {
+    channel = new BroadcastChannel(CHANNEL_NAME);
+  }
+  return channel;
+}
+
+// Key identifying a loop across tabs
+export function getLoopKey(sector: Sector, imageType: ImageType): string {
+  return `${sector}/${imageType}`;
+}
+
+// Run a cache write with no other tab writing at the same time
+export async function withCacheLock<T>(task: () => Promise<T>): Promise<T> {
+  if (!navigator.locks) return task();
+  return await navigator.locks.request(CACHE_LOCK, task);
+}
+
+// Compete for leadership of a loop. The first onChange reports the outcome
+// straight away - true if this tab took the lock, false if another tab holds
+// it. A follower then queues behind the leader and gets onChange(true) if it
+// closes. Returns a cleanup that gives up leadership (or the place in the queue).
+export function electLeader(key: string, onChange: (leader: boolean) => void): () => void {
+  if (!navigator.locks) {
+    Promise.resolve().then(() => onChange(true));
+    return () => {};
+  }
+
+  const name = `${LOCK_PREFIX}:leader:${key}`;
+  const controller = new AbortController();
+  let release: (() => void) | null = null;
+
+  const lead = () => {
+    onChange(true);
+    // Hold the lock until cleanup
+    return new Promise<void>((resolve) => {
+      release = resolve;
+    });
+  };
+
+  navigator.locks
+    .request(name, { ifAvailable: true }, (lock) => (lock ? lead() : null))
+    .then((result) => {
+      // Led until released, or cleaned up before the answer came
+      if (result !== null || controller.signal.aborted) return;
+      onChange(false);
+      return navigator.locks.request(name, { signal: controller.signal }, lead);
+    })
+    .catch((error) => {
+      if (!isAbortError(error)) console.error('Error electing leader tab:', error);
+    });
+
+  return () => {
+    controller.abort();
+    release?.();
+    onChange(false);
+  };
+}
+
+// Tell other tabs a loop has fresh frames (already in the shared cache)
+export function announceLoop(key: string, frames: GoesFrame[]): void {
+  const message: LoopAnnouncement = { type: 'loop', key, frames };
+  getChannel()?.postMessage(message);
+}
+
+// Listen for loops announced by other tabs
+export function subscribeLoops(listener: (key: string, frames: GoesFrame[]) => void): () => void {
+  const current = getChannel();
+  if (!current) return () => {};
+
+  const handleMessage = (event: MessageEvent<LoopMessage>) => {
+    if (event.data?.type === 'loop') listener(event.data.key, event.data.frames);
+  };
+  current.addEventListener('message', handleMessage);
+  return () => current.removeEventListener('message', handleMessage);
+}
+
+// Ask the leader of a loop to fetch it now and announce the result
+export function requestLoop(key: string): void {
+  const message: LoopRequest = { type: 'request', key };
+  getChannel()?.postMessage(message);
+}
+
+// Listen for followers asking for a loop
+export function subscribeLoopRequests(listener: (key: string) => void): () => void {
+  const current = getChannel();
+  if (!current) return () => {};
+
+  const handleMessage = (event: MessageEvent<LoopMessage>) => {
+    if (event.data?.type === 'request') listener(event.data.key);
+  };
+  current.addEventListener('message', handleMessage);
+  return () => current.removeEventListener('message', handleMessage);
+}
+
+// Wait for a loop to be announced - resolves false after timeoutMs or on abort
+export function waitForLoop(key: string, timeoutMs: number, signal?: AbortSignal): Promise<boolean> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve(false);
+      return;
+    }
+    const finish = (announced: boolean) => {
+      window.clearTimeout(timer);
+      unsubscribe();
+      signal?.removeEventListener('abort', handleAbort);
+      resolve(announced);
+    };
+    const handleAbort = () => finish(false);
+    const timer = window.setTimeout(() => finish(false), timeoutMs);
+    const unsubscribe = subscribeLoops((announcedKey) => {
+      if (announcedKey === key) finish(true);
+    });
+    signal?.addEventListener('abort', handleAbort);
+  });
+}
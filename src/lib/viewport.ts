@@ -0,0 +1,80 @@
+// Zoom and pan of an image inside its container
+// The viewport scales the container's content about its top-left corner and
+// then translates it: a content point p lands at p * scale + (x, y).
+
+export interface Viewport {
+  scale: number;
+  x: number; // Translation in container px
+  y: number;
+}
+
+export interface ViewportSize {
+  width: number;
+  height: number;
+}
+
+// Region of a container or image, in px or fractions depending on use
+export interface ViewportRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export const IDENTITY_VIEWPORT: Viewport = { scale: 1, x: 0, y: 0 };
+export const MAX_ZOOM = 8;
+
+// Keep the scale in range and the content covering the container
+export function clampViewport(viewport: Viewport, size: ViewportSize): Viewport {
+  const scale = Math.max(1, Math.min(MAX_ZOOM, viewport.scale));
+  return {
+    scale,
+    x: Math.max(size.width * (1 - scale), Math.min(0, viewport.x)),
+    y: Math.max(size.height * (1 - scale), Math.min(0, viewport.y)),
+  };
+}
+
+// Zoom by `factor`, keeping the container point (px, py) fixed on screen
+export function zoomAt(viewport: Viewport, factor: number, px: number, py: number, size: ViewportSize): Viewport {
+  const scale = Math.max(1, Math.min(MAX_ZOOM, viewport.scale * factor));
+  const applied = scale / viewport.scale;
+  return clampViewport({
+    scale,
+    x: px - (px - viewport.x) * applied,
+    y: py - (py - viewport.y) * applied,
+  }, size);
+}
+
+export function panBy(viewport: Viewport, dx: number, dy: number, size: ViewportSize): Viewport {
+  return clampViewport({ ...viewport, x: viewport.x + dx, y: viewport.y + dy }, size);
+}
+
+// Put the unzoomed content point (cx, cy) in the middle of the container
+export function centerOn(viewport: Viewport, cx: number, cy: number, size: ViewportSize): Viewport {
+  return clampViewport({
+    ...viewport,
+    x: size.width / 2 - cx * viewport.scale,
+    y: size.height / 2 - cy * viewport.scale,
+  }, size);
+}
+
+// Where a rect of the unzoomed content ends up on screen
+export function transformRect(rect: ViewportRect, viewport: Viewport): ViewportRect {
+  return {
+    left: rect.left * viewport.scale + viewport.x,
+    top: rect.top * viewport.scale + viewport.y,
+    width: rect.width * viewport.scale,
+    height: rect.height * viewport.scale,
+  };
+}
+
+// Part of the image on screen, as fractions of the image - `imageRect` is
+// where the image sits in the unzoomed container
+export function getVisibleImageRegion(viewport: Viewport, size: ViewportSize, imageRect: ViewportRect): ViewportRect {
+  const clamp = (value: number) => Math.max(0, Math.min(1, value));
+  const left = clamp((-viewport.x / viewport.scale - imageRect.left) / imageRect.width);
+  const top = clamp((-viewport.y / viewport.scale - imageRect.top) / imageRect.height);
+  const right = clamp(((size.width - viewport.x) / viewport.scale - imageRect.left) / imageRect.width);
+  const bottom = clamp(((size.height - viewport.y) / viewport.scale - imageRect.top) / imageRect.height);
+  return { left, top, width: right - left, height: bottom - top };
+}
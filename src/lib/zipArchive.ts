@@ -0,0 +1,149 @@
+// Minimal ZIP archive writer/reader for loop bundles
+// Entries are stored uncompressed - frames are already-compressed JPEGs, so
+// deflate would only cost time. Any unzip tool can open the result.
+// Reference: PKWARE APPNOTE.TXT, sections 4.3.7 (local header), 4.3.12
+// (central directory) and 4.3.16 (end of central directory)
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array<ArrayBuffer>;
+  modified?: Date;
+}
+
+const LOCAL_HEADER_SIG = 0x04034b50;
+const CENTRAL_HEADER_SIG = 0x02014b50;
+const END_OF_CENTRAL_DIR_SIG = 0x06054b50;
+const LOCAL_HEADER_SIZE = 30;
+const CENTRAL_HEADER_SIZE = 46;
+const END_OF_CENTRAL_DIR_SIZE = 22;
+const ZIP_VERSION = 20;       // 2.0 - stored entries
+const UTF8_NAMES_FLAG = 0x0800;
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// MS-DOS date/time fields (local time, 2-second precision, 1980 onwards)
+function toDosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(date.getFullYear(), 1980);
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+// Build a ZIP archive from the given entries
+export function createZip(entries: ZipEntry[]): Blob {
+  const encoder = new TextEncoder();
+  const parts: Uint8Array<ArrayBuffer>[] = [];
+  const central: Uint8Array<ArrayBuffer>[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const crc = crc32(entry.data);
+    const { time, date } = toDosDateTime(entry.modified ?? new Date());
+
+    const local = new DataView(new ArrayBuffer(LOCAL_HEADER_SIZE));
+    local.setUint32(0, LOCAL_HEADER_SIG, true);
+    local.setUint16(4, ZIP_VERSION, true);
+    local.setUint16(6, UTF8_NAMES_FLAG, true);
+    local.setUint16(8, 0, true); // Stored
+    local.setUint16(10, time, true);
+    local.setUint16(12, date, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, entry.data.length, true);
+    local.setUint32(22, entry.data.length, true);
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true);
+    parts.push(new Uint8Array(local.buffer), name, entry.data);
+
+    const header = new DataView(new ArrayBuffer(CENTRAL_HEADER_SIZE));
+    header.setUint32(0, CENTRAL_HEADER_SIG, true);
+    header.setUint16(4, ZIP_VERSION, true);
+    header.setUint16(6, ZIP_VERSION, true);
+    header.setUint16(8, UTF8_NAMES_FLAG, true);
+    header.setUint16(10, 0, true);
+    header.setUint16(12, time, true);
+    header.setUint16(14, date, true);
+    header.setUint32(16, crc, true);
+    header.setUint32(20, entry.data.length, true);
+    header.setUint32(24, entry.data.length, true);
+    header.setUint16(28, name.length, true);
+    // Extra field, comment, disk number and attributes all stay zero
+    header.setUint32(42, offset, true);
+    central.push(new Uint8Array(header.buffer), name);
+
+    offset += LOCAL_HEADER_SIZE + name.length + entry.data.length;
+  }
+
+  const centralSize = central.reduce((sum, part) => sum + part.length, 0);
+  const end = new DataView(new ArrayBuffer(END_OF_CENTRAL_DIR_SIZE));
+  end.setUint32(0, END_OF_CENTRAL_DIR_SIG, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...central, new Uint8Array(end.buffer)], { type: 'application/zip' });
+}
+
+// Read every entry of a stored (uncompressed) ZIP archive, keyed by name
+export async function readZip(archive: Blob): Promise<Map<string, Uint8Array<ArrayBuffer>>> {
+  const bytes = new Uint8Array(await archive.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+  const decoder = new TextDecoder();
+
+  // The end record sits at the very end, unless followed by an archive comment
+  let endOffset = -1;
+  for (let i = bytes.length - END_OF_CENTRAL_DIR_SIZE; i >= 0; i--) {
+    if (view.getUint32(i, true) === END_OF_CENTRAL_DIR_SIG) {
+      endOffset = i;
+      break;
+    }
+  }
+  if (endOffset === -1) throw new Error('Not a ZIP archive');
+
+  const count = view.getUint16(endOffset + 10, true);
+  let pos = view.getUint32(endOffset + 16, true);
+  const entries = new Map<string, Uint8Array<ArrayBuffer>>();
+
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(pos, true) !== CENTRAL_HEADER_SIG) throw new Error('Corrupt ZIP central directory');
+    const method = view.getUint16(pos + 10, true);
+    const size = view.getUint32(pos + 20, true);
+    const nameLength = view.getUint16(pos + 28, true);
+    const extraLength = view.getUint16(pos + 30, true);
+    const commentLength = view.getUint16(pos + 32, true);
+    const localOffset = view.getUint32(pos + 42, true);
+    const name = decoder.decode(bytes.subarray(pos + CENTRAL_HEADER_SIZE, pos + CENTRAL_HEADER_SIZE + nameLength));
+    pos += CENTRAL_HEADER_SIZE + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) continue; // Directory entry
+    if (method !== 0) throw new Error(`Compressed ZIP entries are not supported (${name})`);
+
+    // The local header's own name/extra lengths can differ from the central copy
+    const dataStart = localOffset + LOCAL_HEADER_SIZE
+      + view.getUint16(localOffset + 26, true)
+      + view.getUint16(localOffset + 28, true);
+    entries.set(name, bytes.slice(dataStart, dataStart + size));
+  }
+
+  return entries;
+}
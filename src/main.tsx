@@ -4,6 +4,9 @@ import { HashRouter, Routes, Route } from 'react-router-dom'
 import './index.css'
 import App from './App.tsx'
 import { DebugPage } from './components/DebugPage.tsx'
+import { registerServiceWorker } from './lib/serviceWorker.ts'
+
+registerServiceWorker()
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
@@ -0,0 +1,24 @@
+// Decodes frame images into ImageBitmaps off the main thread
+// Request: { url } (an object URL from the frame handle registry)
+// Reply:   { url, bitmap } transferred, or { url, error }
+
+export interface DecodeRequest {
+  url: string;
+}
+
+export type DecodeResponse =
+  | { url: string; bitmap: ImageBitmap }
+  | { url: string; error: string };
+
+self.onmessage = async (event: MessageEvent<DecodeRequest>) => {
+  const { url } = event.data;
+  try {
+    const response = await fetch(url);
+    const bitmap = await createImageBitmap(await response.blob());
+    const message: DecodeResponse = { url, bitmap };
+    self.postMessage(message, { transfer: [bitmap] });
+  } catch (error) {
+    const message: DecodeResponse = { url, error: error instanceof Error ? error.message : String(error) };
+    self.postMessage(message);
+  }
+};
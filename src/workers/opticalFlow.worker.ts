@@ -0,0 +1,38 @@
+// Estimates block motion between two frames off the main thread
+// Request: { key, from, to } - downscaled ImageBitmaps, transferred
+// Reply:   { key, flow } with the flow arrays transferred, or { key, error }
+
+import { estimateBlockFlow, toLuma } from '../lib/frameInterpolation';
+import type { FlowField } from '../lib/frameInterpolation';
+
+export interface FlowRequest {
+  key: string;
+  from: ImageBitmap;
+  to: ImageBitmap;
+}
+
+export type FlowResponse =
+  | { key: string; flow: FlowField }
+  | { key: string; error: string };
+
+function readLuma(bitmap: ImageBitmap): Uint8Array {
+  const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('No 2D context in worker');
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  return toLuma(ctx.getImageData(0, 0, canvas.width, canvas.height).data);
+}
+
+self.onmessage = (event: MessageEvent<FlowRequest>) => {
+  const { key, from, to } = event.data;
+  try {
+    const { width, height } = from;
+    const flow = estimateBlockFlow(readLuma(from), readLuma(to), width, height);
+    const message: FlowResponse = { key, flow };
+    self.postMessage(message, { transfer: [flow.dx.buffer, flow.dy.buffer] });
+  } catch (error) {
+    const message: FlowResponse = { key, error: error instanceof Error ? error.message : String(error) };
+    self.postMessage(message);
+  }
+};
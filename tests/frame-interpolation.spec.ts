@@ -0,0 +1,49 @@
+import { test, expect } from '@playwright/test';
+import { estimateBlockFlow, getBlendFactor, toLuma } from '../src/lib/frameInterpolation';
+
+const SIZE = 32;
+
+// Grayscale image with a bright 8x8 square at (x, y) on a dark background
+function squareAt(x: number, y: number): Uint8Array {
+  const image = new Uint8Array(SIZE * SIZE).fill(20);
+  for (let row = y; row < y + 8; row++) {
+    image.fill(230, row * SIZE + x, row * SIZE + x + 8);
+  }
+  return image;
+}
+
+test.describe('Blend factor', () => {
+  test('steps through the interval without reaching the next frame', () => {
+    expect(getBlendFactor(0, 4)).toBe(0);
+    expect(getBlendFactor(0.3, 4)).toBe(0.25);
+    expect(getBlendFactor(0.99, 4)).toBe(0.75);
+    expect(getBlendFactor(1.5, 4)).toBe(0.75);
+  });
+
+  test('holds the frame before the blend starts', () => {
+    expect(getBlendFactor(-0.5, 4)).toBe(0);
+    expect(getBlendFactor(Number.NaN, 4)).toBe(0);
+  });
+});
+
+test.describe('Block-matching flow', () => {
+  test('follows a moving block', () => {
+    const flow = estimateBlockFlow(squareAt(8, 8), squareAt(11, 6), SIZE, SIZE);
+    const block = 1 * flow.cols + 1; // The block the square started in
+
+    expect(flow.dx[block] * SIZE).toBeCloseTo(3);
+    expect(flow.dy[block] * SIZE).toBeCloseTo(-2);
+  });
+
+  test('leaves flat and unchanged areas still', () => {
+    const flow = estimateBlockFlow(squareAt(8, 8), squareAt(8, 8), SIZE, SIZE);
+
+    expect(flow.dx.every((d) => d === 0)).toBe(true);
+    expect(flow.dy.every((d) => d === 0)).toBe(true);
+  });
+
+  test('converts RGBA to luminance', () => {
+    const luma = toLuma(new Uint8ClampedArray([255, 255, 255, 255, 0, 0, 0, 255]));
+    expect(Array.from(luma)).toEqual([255, 0]);
+  });
+});
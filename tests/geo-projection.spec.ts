@@ -0,0 +1,47 @@
+import { test, expect } from '@playwright/test';
+import {
+  scanAngleToLatLon,
+  latLonToScanAngle,
+  getImageGeoref,
+  imageToLatLon,
+  latLonToImage,
+} from '../src/lib/geoProjection';
+
+test.describe('GOES fixed-grid projection', () => {
+  test('image center of the full disk is the sub-satellite point', () => {
+    const point = scanAngleToLatLon(0, 0, -75.2);
+    expect(point!.lat).toBeCloseTo(0, 6);
+    expect(point!.lon).toBeCloseTo(-75.2, 6);
+  });
+
+  test('round-trips lat/lon through scan angles', () => {
+    const angles = latLonToScanAngle(42.36, -71.06, -75.2);
+    const point = scanAngleToLatLon(angles!.x, angles!.y, -75.2);
+    expect(point!.lat).toBeCloseTo(42.36, 4);
+    expect(point!.lon).toBeCloseTo(-71.06, 4);
+  });
+
+  test('far side of the Earth is not visible', () => {
+    expect(latLonToScanAngle(0, 104.8, -75.2)).toBeNull();
+    expect(scanAngleToLatLon(0.2, 0.2, -75.2)).toBeNull();
+  });
+
+  test('places Boston inside the CONUS and Northeast images', () => {
+    for (const sector of ['CONUS', 'northeast'] as const) {
+      const georef = getImageGeoref(sector, 'GOES19')!;
+      const pos = latLonToImage(georef, 42.36, -71.06)!;
+      expect(pos.u).toBeGreaterThan(0);
+      expect(pos.u).toBeLessThan(1);
+      expect(pos.v).toBeGreaterThan(0);
+      expect(pos.v).toBeLessThan(1);
+
+      const back = imageToLatLon(georef, pos.u, pos.v)!;
+      expect(back.lat).toBeCloseTo(42.36, 4);
+    }
+  });
+
+  test('meso sectors need a runtime location', () => {
+    expect(getImageGeoref('meso1east', 'GOES19')).toBeNull();
+    expect(getImageGeoref('meso1east', 'GOES19', { lat: 27, lon: -80, fetchedAt: new Date() })).not.toBeNull();
+  });
+});
@@ -0,0 +1,146 @@
+import { test, expect } from '@playwright/test';
+import { readFileSync } from 'node:fs';
+import { parseDirectoryListing, chooseResolution, findMissingScans, decimateFrames, getFrameGaps, fetchAvailableImages, planLoopUpdate, parseMesoLocations } from '../src/lib/goesApi';
+import type { GoesFrame } from '../src/lib/goesApi';
+
+// Saved NOAA directory listing for GOES-19 Northeast GeoColor
+const listingHtml = readFileSync(new URL('./fixtures/goes-ne-geocolor.html', import.meta.url), 'utf8');
+// STAR mesoscale page for GOES-East (meso_index.php?sat=G19)
+const mesoHtml = readFileSync(new URL('./fixtures/star-meso-index-g19.html', import.meta.url), 'utf8');
+
+test.describe('GOES directory listing parser', () => {
+  test('parses every dated frame once, oldest first', () => {
+    const frames = parseDirectoryListing(listingHtml, 'northeast', 'GEOCOLOR');
+
+    // 4 + 4 + 2 dated files - latest.jpg and the undated copy are skipped
+    expect(frames).toHaveLength(10);
+    expect(frames[0].scanTime.toISOString()).toBe('2025-10-19T12:01:00.000Z');
+    expect(frames[frames.length - 1].scanTime.toISOString()).toBe('2025-10-19T12:16:00.000Z');
+  });
+
+  test('fills in frame metadata', () => {
+    const frames = parseDirectoryListing(listingHtml, 'northeast', 'GEOCOLOR');
+    const frame = frames.find((f) => f.resolution === '1200x1200');
+
+    expect(frame).toMatchObject({
+      url: 'https://cdn.star.nesdis.noaa.gov/GOES19/ABI/SECTOR/ne/GEOCOLOR/20252921201_GOES19-ABI-ne-GEOCOLOR-1200x1200.jpg',
+      satellite: 'GOES19',
+      sector: 'northeast',
+      product: 'GEOCOLOR',
+    });
+  });
+
+  test('ignores other products in the listing', () => {
+    expect(parseDirectoryListing(listingHtml, 'northeast', 'Band13')).toHaveLength(0);
+  });
+});
+
+test.describe('Resolution policies', () => {
+  const resolutions = ['300x300', '600x600', '1200x1200', '2400x2400'];
+
+  test('explicit picks the exact or closest size', () => {
+    expect(chooseResolution(resolutions, { mode: 'explicit', resolution: '1200x1200' })).toBe('1200x1200');
+    expect(chooseResolution(resolutions, { mode: 'explicit', resolution: '1000x1000' })).toBe('1200x1200');
+  });
+
+  test('maxPixels stays within the budget', () => {
+    expect(chooseResolution(resolutions, { mode: 'maxPixels', maxPixels: 2_000_000 })).toBe('1200x1200');
+    expect(chooseResolution(resolutions, { mode: 'maxPixels', maxPixels: 1 })).toBe('300x300');
+  });
+
+  test('fit accounts for devicePixelRatio', () => {
+    expect(chooseResolution(resolutions, { mode: 'fit', width: 375, height: 500, devicePixelRatio: 1 })).toBe('600x600');
+    expect(chooseResolution(resolutions, { mode: 'fit', width: 375, height: 500, devicePixelRatio: 4 })).toBe('2400x2400');
+  });
+
+  test('saver skips thumbnails', () => {
+    expect(chooseResolution(resolutions, { mode: 'saver' })).toBe('600x600');
+  });
+});
+
+test.describe('Time range queries', () => {
+  test('reports scans missing from the cadence', () => {
+    const frames = parseDirectoryListing(listingHtml, 'northeast', 'GEOCOLOR')
+      .filter((f) => f.resolution === '600x600');
+    const missing = findMissingScans(frames, 5, {
+      start: new Date('2025-10-19T12:00:00Z'),
+      end: new Date('2025-10-19T12:20:00Z'),
+    });
+
+    // 12:01, 12:06 and 12:16 exist - 12:11 was skipped
+    expect(missing.map((d) => d.toISOString())).toEqual(['2025-10-19T12:11:00.000Z']);
+  });
+
+  test('counts scans missing before each frame', () => {
+    const frames = parseDirectoryListing(listingHtml, 'northeast', 'GEOCOLOR')
+      .filter((f) => f.resolution === '600x600');
+
+    // 12:01 → 12:06 on cadence, 12:06 → 12:16 skips 12:11
+    expect(getFrameGaps(frames, 5)).toEqual([0, 0, 1]);
+  });
+
+  test('decimation keeps the first and newest frame', () => {
+    const frames = Array.from({ length: 100 }, (_, i) => i);
+    const thinned = decimateFrames(frames, 10);
+
+    expect(thinned).toHaveLength(10);
+    expect(thinned[0]).toBe(0);
+    expect(thinned[9]).toBe(99);
+  });
+});
+
+test.describe('Directory fallback', () => {
+  test('an unreadable directory falls back to latest.jpg, marked as such', async () => {
+    const realFetch = globalThis.fetch;
+    globalThis.fetch = async () => new Response('', { status: 503 });
+    try {
+      const listing = await fetchAvailableImages('northeast', 'GEOCOLOR');
+      expect(listing.resolution).toBe('latest');
+      expect(listing.frames).toHaveLength(1);
+      expect(listing.frames[0].url).toMatch(/latest\.jpg$/);
+      expect(listing.frames[0].resolution).toBe('latest');
+    } finally {
+      globalThis.fetch = realFetch;
+    }
+  });
+});
+
+test.describe('Live loop updates', () => {
+  const loop = parseDirectoryListing(listingHtml, 'northeast', 'GEOCOLOR').filter((f) => f.resolution === '600x600');
+  const newest = loop[loop.length - 2];
+
+  test('keeps the loop when the directory listing fails', async () => {
+    const realFetch = globalThis.fetch;
+    globalThis.fetch = async () => { throw new TypeError('Failed to fetch'); };
+    try {
+      const listing = await fetchAvailableImages('northeast', 'GEOCOLOR');
+      expect(planLoopUpdate(newest, listing.frames)).toEqual({ kind: 'unavailable' });
+    } finally {
+      globalThis.fetch = realFetch;
+    }
+  });
+
+  test('appends only scans newer than the loop', () => {
+    expect(planLoopUpdate(newest, loop)).toEqual({ kind: 'append', frames: [loop[loop.length - 1]] });
+  });
+
+  test('reloads when the resolution or satellite changes', () => {
+    const resized: GoesFrame = { ...loop[loop.length - 1], resolution: '1200x1200' };
+    const failedOver: GoesFrame = { ...loop[loop.length - 1], satellite: 'GOES18' };
+    expect(planLoopUpdate(newest, [resized])).toEqual({ kind: 'reload' });
+    expect(planLoopUpdate(newest, [failedOver])).toEqual({ kind: 'reload' });
+  });
+});
+
+test.describe('Mesoscale locations', () => {
+  test('reads both sector centers from the STAR meso page', () => {
+    expect(parseMesoLocations(mesoHtml)).toEqual({
+      M1: { lat: 35.12, lon: -97.48 },
+      M2: { lat: 18.4, lon: -66.1 },
+    });
+  });
+
+  test('finds nothing in unrelated markup', () => {
+    expect(parseMesoLocations('<html><body><h1>Index of /GOES19/ABI/SECTOR/ne/GEOCOLOR/</h1></body></html>')).toEqual({});
+  });
+});
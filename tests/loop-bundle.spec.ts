@@ -0,0 +1,62 @@
+import { test, expect } from '@playwright/test';
+import { readFileSync } from 'node:fs';
+import { parseDirectoryListing } from '../src/lib/goesApi';
+import { packLoopBundle, unpackLoopBundle } from '../src/lib/imageCache';
+import { createZip, readZip } from '../src/lib/zipArchive';
+
+const listingHtml = readFileSync(new URL('./fixtures/goes-ne-geocolor.html', import.meta.url), 'utf8');
+const frames = parseDirectoryListing(listingHtml, 'northeast', 'GEOCOLOR').filter((f) => f.resolution === '1200x1200');
+
+// Stand-in JPEG: the SOI marker followed by bytes unique to the frame
+function fakeJpeg(seed: number): Uint8Array<ArrayBuffer> {
+  return new Uint8Array(256).map((_, i) => (i < 3 ? [0xff, 0xd8, 0xff][i] : (i * seed) % 256));
+}
+
+// Re-pack a bundle with its manifest changed
+async function withManifest(bundle: Blob, change: (manifest: Record<string, unknown>) => void): Promise<Blob> {
+  const entries = await readZip(bundle);
+  const manifest = JSON.parse(new TextDecoder().decode(entries.get('manifest.json')));
+  change(manifest);
+  entries.set('manifest.json', new TextEncoder().encode(JSON.stringify(manifest)));
+  return createZip([...entries].map(([name, data]) => ({ name, data })));
+}
+
+test.describe('Loop bundles', () => {
+  test('export → import round-trips frames and images', async () => {
+    const images = frames.map((frame, i) => ({ frame, data: fakeJpeg(i + 3) }));
+    const bundle = packLoopBundle(images);
+    const { manifest, images: unpacked } = await unpackLoopBundle(bundle);
+
+    expect(manifest).toMatchObject({ sector: 'northeast', product: 'GEOCOLOR', satellite: 'GOES19', resolution: '1200x1200' });
+    expect(unpacked.map(({ frame }) => frame)).toEqual(frames);
+    expect(unpacked.map(({ data }) => data)).toEqual(images.map(({ data }) => data));
+  });
+
+  test('rejects frames from another sector or product', async () => {
+    const bundle = packLoopBundle([{ frame: frames[0], data: fakeJpeg(3) }]);
+    const foreign = await withManifest(bundle, (manifest) => {
+      (manifest.frames as { url: string }[])[0].url = frames[0].url.replace('/ne/', '/se/');
+    });
+    await expect(unpackLoopBundle(foreign)).rejects.toThrow('is not a northeast GEOCOLOR scan');
+
+    const relabelled = await withManifest(bundle, (manifest) => {
+      manifest.product = 'Sandwich';
+    });
+    await expect(unpackLoopBundle(relabelled)).rejects.toThrow('is not a northeast Sandwich scan');
+
+    const unknown = await withManifest(bundle, (manifest) => {
+      manifest.sector = 'hasOwnProperty';
+    });
+    await expect(unpackLoopBundle(unknown)).rejects.toThrow('Unknown sector or product');
+  });
+
+  test('rejects scan times that are invalid or disagree with the URL', async () => {
+    const bundle = packLoopBundle([{ frame: frames[0], data: fakeJpeg(3) }]);
+    for (const scanTime of ['not a date', '2020-01-01T00:00:00.000Z']) {
+      const tampered = await withManifest(bundle, (manifest) => {
+        (manifest.frames as { scanTime: string }[])[0].scanTime = scanTime;
+      });
+      await expect(unpackLoopBundle(tampered)).rejects.toThrow('invalid scan time');
+    }
+  });
+});
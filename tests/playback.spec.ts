@@ -0,0 +1,54 @@
+import { test, expect } from '@playwright/test';
+import { stepFrame, getPlayStartFrame, getDwellTime } from '../src/lib/playback';
+import type { PlaybackDirection, PlaybackMode } from '../src/lib/playback';
+
+// Frames visited over `steps` steps from `start`
+function play(mode: PlaybackMode, count: number, steps: number, start = 0): number[] {
+  const visited = [start];
+  let frame = start;
+  let direction: PlaybackDirection | undefined;
+  for (let i = 0; i < steps; i++) {
+    const step = stepFrame(frame, count, mode, direction);
+    if (step.done) break;
+    frame = step.frame;
+    direction = step.direction;
+    visited.push(frame);
+  }
+  return visited;
+}
+
+test.describe('Playback modes', () => {
+  test('loop wraps forward', () => {
+    expect(play('loop', 3, 4)).toEqual([0, 1, 2, 0, 1]);
+  });
+
+  test('reverse wraps backward', () => {
+    expect(play('reverse', 3, 4, 2)).toEqual([2, 1, 0, 2, 1]);
+  });
+
+  test('rock bounces off both ends without repeating them', () => {
+    expect(play('rock', 3, 6)).toEqual([0, 1, 2, 1, 0, 1, 2]);
+  });
+
+  test('once stops on the newest frame', () => {
+    expect(play('once', 3, 10)).toEqual([0, 1, 2]);
+    expect(stepFrame(2, 3, 'once').done).toBe(true);
+  });
+
+  test('single frame loops stay put', () => {
+    expect(stepFrame(0, 1, 'rock')).toMatchObject({ frame: 0, done: false });
+    expect(stepFrame(0, 1, 'once').done).toBe(true);
+  });
+
+  test('play once restarts from the oldest frame after finishing', () => {
+    expect(getPlayStartFrame(2, 3, 'once')).toBe(0);
+    expect(getPlayStartFrame(1, 3, 'once')).toBe(1);
+    expect(getPlayStartFrame(2, 3, 'loop')).toBe(2);
+  });
+
+  test('only the newest frame dwells', () => {
+    expect(getDwellTime(2, 3, 2000)).toBe(2000);
+    expect(getDwellTime(1, 3, 2000)).toBe(0);
+    expect(getDwellTime(0, 1, 1000)).toBe(1000);
+  });
+});
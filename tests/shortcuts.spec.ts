@@ -0,0 +1,39 @@
+import { test, expect } from '@playwright/test';
+import { matchShortcut } from '../src/lib/shortcuts';
+import type { ShortcutKeyEvent } from '../src/lib/shortcuts';
+
+function press(key: string, target: Partial<{ tagName: string; isContentEditable: boolean }> | null = null, modifiers: Partial<ShortcutKeyEvent> = {}) {
+  return matchShortcut({ key, ctrlKey: false, metaKey: false, altKey: false, target: target as EventTarget | null, ...modifiers });
+}
+
+test.describe('Keyboard shortcuts', () => {
+  test('maps keys to actions', () => {
+    expect(press(' ')).toEqual({ action: 'togglePlay' });
+    expect(press('ArrowLeft')).toEqual({ action: 'prevFrame' });
+    expect(press('End')).toEqual({ action: 'lastFrame' });
+    expect(press('=')).toEqual({ action: 'faster' });
+    expect(press('?')).toEqual({ action: 'help' });
+    expect(press('x')).toBeNull();
+  });
+
+  test('number keys select a slot from zero', () => {
+    expect(press('1')).toEqual({ action: 'selectSlot', slot: 0 });
+    expect(press('9')).toEqual({ action: 'selectSlot', slot: 8 });
+  });
+
+  test('leaves form fields their keys', () => {
+    expect(press('ArrowRight', { tagName: 'INPUT' })).toBeNull();
+    expect(press('1', { tagName: 'SELECT' })).toBeNull();
+    expect(press(' ', { tagName: 'DIV', isContentEditable: true })).toBeNull();
+  });
+
+  test('space on a focused button clicks it instead', () => {
+    expect(press(' ', { tagName: 'BUTTON' })).toBeNull();
+    expect(press('ArrowRight', { tagName: 'BUTTON' })).toEqual({ action: 'nextFrame' });
+  });
+
+  test('ignores browser shortcuts', () => {
+    expect(press('1', null, { metaKey: true })).toBeNull();
+    expect(press('-', null, { ctrlKey: true })).toBeNull();
+  });
+});
@@ -0,0 +1,52 @@
+import { test, expect } from '@playwright/test';
+import {
+  IDENTITY_VIEWPORT,
+  MAX_ZOOM,
+  clampViewport,
+  zoomAt,
+  panBy,
+  centerOn,
+  transformRect,
+  getVisibleImageRegion,
+} from '../src/lib/viewport';
+
+const size = { width: 400, height: 300 };
+
+test.describe('Image viewport', () => {
+  test('zooming keeps the point under the cursor in place', () => {
+    const zoomed = zoomAt(IDENTITY_VIEWPORT, 2, 100, 50, size);
+    expect(zoomed).toEqual({ scale: 2, x: -100, y: -50 });
+    // Content point (100, 50) still lands at (100, 50)
+    expect(100 * zoomed.scale + zoomed.x).toBe(100);
+    expect(50 * zoomed.scale + zoomed.y).toBe(50);
+  });
+
+  test('scale stays between 1 and the max zoom', () => {
+    expect(zoomAt(IDENTITY_VIEWPORT, 0.5, 200, 150, size)).toEqual(IDENTITY_VIEWPORT);
+    expect(zoomAt(IDENTITY_VIEWPORT, 100, 0, 0, size).scale).toBe(MAX_ZOOM);
+  });
+
+  test('panning stops at the content edges', () => {
+    const zoomed = { scale: 2, x: -100, y: -50 };
+    expect(panBy(zoomed, 500, 500, size)).toEqual({ scale: 2, x: 0, y: 0 });
+    expect(panBy(zoomed, -1000, -1000, size)).toEqual({ scale: 2, x: -400, y: -300 });
+    expect(clampViewport({ scale: 1, x: -20, y: 20 }, size)).toEqual(IDENTITY_VIEWPORT);
+  });
+
+  test('centerOn puts a content point mid-container', () => {
+    expect(centerOn({ scale: 2, x: 0, y: 0 }, 200, 150, size)).toEqual({ scale: 2, x: -200, y: -150 });
+  });
+
+  test('overlay rect and visible region follow the viewport', () => {
+    const imageRect = { left: 50, top: 0, width: 300, height: 300 };
+    const viewport = { scale: 2, x: -200, y: -150 };
+    expect(transformRect(imageRect, viewport)).toEqual({ left: -100, top: -150, width: 600, height: 600 });
+
+    const region = getVisibleImageRegion(viewport, size, imageRect);
+    expect(region.left).toBeCloseTo(1 / 6);
+    expect(region.top).toBeCloseTo(0.25);
+    expect(region.width).toBeCloseTo(2 / 3);
+    expect(region.height).toBeCloseTo(0.5);
+    expect(getVisibleImageRegion(IDENTITY_VIEWPORT, size, imageRect)).toEqual({ left: 0, top: 0, width: 1, height: 1 });
+  });
+});
@@ -0,0 +1,33 @@
+import { test, expect } from '@playwright/test';
+import { createZip, readZip } from '../src/lib/zipArchive';
+
+test.describe('Loop bundle ZIP archive', () => {
+  test('round-trips entries byte for byte', async () => {
+    const manifest = new TextEncoder().encode('{"format":"weather-loop-bundle"}');
+    const image = new Uint8Array(1024).map((_, i) => (i * 7) % 256);
+
+    const archive = createZip([
+      { name: 'manifest.json', data: manifest },
+      { name: 'frames/20250011200_GOES19-ABI-ne-GEOCOLOR-1200x1200.jpg', data: image },
+    ]);
+    const entries = await readZip(archive);
+
+    expect([...entries.keys()]).toEqual([
+      'manifest.json',
+      'frames/20250011200_GOES19-ABI-ne-GEOCOLOR-1200x1200.jpg',
+    ]);
+    expect(entries.get('manifest.json')).toEqual(manifest);
+    expect(entries.get('frames/20250011200_GOES19-ABI-ne-GEOCOLOR-1200x1200.jpg')).toEqual(image);
+  });
+
+  test('writes a standard CRC-32', async () => {
+    // CRC-32 of "123456789" is the well-known check value 0xCBF43926
+    const archive = createZip([{ name: 'check.txt', data: new TextEncoder().encode('123456789') }]);
+    const view = new DataView(await archive.arrayBuffer());
+    expect(view.getUint32(14, true)).toBe(0xcbf43926);
+  });
+
+  test('rejects files that are not ZIP archives', async () => {
+    await expect(readZip(new Blob(['not a zip']))).rejects.toThrow('Not a ZIP archive');
+  });
+});
@@ -1,8 +1,24 @@
 import { defineConfig } from 'vite'
+import type { Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 
+// Lists the built files for public/sw.js to precache, so the app can start
+// offline after a single online visit
+function assetManifest(): Plugin {
+  return {
+    name: 'asset-manifest',
+    apply: 'build',
+    generateBundle(_options, bundle) {
+      const files = Object.keys(bundle)
+        .filter((fileName) => !fileName.endsWith('.html') && !fileName.endsWith('.map'))
+        .sort()
+      this.emitFile({ type: 'asset', fileName: 'asset-manifest.json', source: JSON.stringify({ files }) })
+    },
+  }
+}
+
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), assetManifest()],
   base: '/weather-loop/',
 })